@@ -0,0 +1,364 @@
+import { createReadStream } from "node:fs";
+import { rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { pipeline } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import { createGunzip, createGzip } from "node:zlib";
+import { type Cache, hashBuffer } from "./cache.js";
+import { writeStreamAtomic } from "./fs-utils.js";
+import {
+	CACHE_VERSION,
+	type ManifestKind,
+	migrateManifestPayload,
+} from "./migrations.js";
+import { getParentPaths } from "./paths.js";
+import type { Manifest, ManifestRecord } from "./types.js";
+
+const BUNDLE_FORMAT = "pi-undo-redo-bundle";
+const BUNDLE_VERSION = 1;
+// Linux gives up with ELOOP after this many links in one lookup.
+const MAX_SYMLINK_HOPS = 40;
+
+export const BUNDLE_EXTENSION = ".undo-redo.gz";
+
+export interface BundleSource {
+	sessionId: string;
+	realRoot: string;
+}
+
+export interface BundleSummary {
+	source: BundleSource;
+	createdAt: number;
+	leafCount: number;
+	blobCount: number;
+	bytes: number;
+	// Leaves left out of an export because their delta chain is broken.
+	broken?: string[];
+}
+
+// A bundle is gzip-compressed JSON lines: this header, then the base, every
+// leaf and every snapshot as one record each, so neither side holds the whole
+// bundle in memory.
+interface BundleHeader {
+	format: typeof BUNDLE_FORMAT;
+	version: number;
+	cacheVersion: number;
+	createdAt: number;
+	source: BundleSource;
+}
+
+interface BundleRecord {
+	base?: ManifestRecord;
+	leaf?: string;
+	files?: ManifestRecord;
+	blob?: string;
+	data?: string;
+}
+
+function isSafeLeafId(leafId: string): boolean {
+	return leafId.length > 0 && !leafId.startsWith(".") && !/[\\/]/.test(leafId);
+}
+
+function isSafeRelativePath(relativePath: string): boolean {
+	if (!relativePath || path.posix.isAbsolute(relativePath)) return false;
+	if (relativePath.includes("\\")) return false;
+	return relativePath
+		.split("/")
+		.every((segment) => segment !== "" && segment !== "." && segment !== "..");
+}
+
+function isSafeSymlinkTarget(target: string): boolean {
+	return (
+		target !== "" && !target.includes("\\") && !path.posix.isAbsolute(target)
+	);
+}
+
+// Follows a link the way the filesystem would, through the other links in the
+// manifest, and tells whether it stays inside the project. A chain longer than
+// the kernel follows (ELOOP) cannot be written through, so it is harmless.
+function staysInProject(links: Map<string, string>, linkPath: string): boolean {
+	const resolved = linkPath.split("/").slice(0, -1);
+	const pending = (links.get(linkPath) ?? "").split("/");
+	let hops = 0;
+	while (pending.length > 0) {
+		const segment = pending.shift() as string;
+		if (segment === "" || segment === ".") continue;
+		if (segment === "..") {
+			if (resolved.length === 0) return false;
+			resolved.pop();
+			continue;
+		}
+		resolved.push(segment);
+		const target = links.get(resolved.join("/"));
+		if (target === undefined) continue;
+		if (++hops > MAX_SYMLINK_HOPS) return true;
+		if (!isSafeSymlinkTarget(target)) return false;
+		resolved.pop();
+		pending.unshift(...target.split("/"));
+	}
+	return true;
+}
+
+// Restoring an entry below a symlink would write through the link, and a
+// link has to resolve inside the project, or files restored through it would
+// land outside. Targets are followed through each other, since `a/b -> ..`
+// makes `c -> a/b/../..` leave the project although it looks contained.
+function checkSymlinks(manifest: Manifest, label: string): void {
+	const links = new Map<string, string>();
+	for (const [relativePath, entry] of manifest) {
+		if (entry.exists && entry.kind === "symlink") {
+			links.set(relativePath, entry.target ?? "");
+		}
+	}
+	if (links.size === 0) return;
+	for (const [relativePath, target] of links) {
+		if (!staysInProject(links, relativePath)) {
+			throw new Error(
+				`${label} contains a symlink that points outside the project: ${relativePath} -> ${target}`,
+			);
+		}
+	}
+	for (const relativePath of manifest.keys()) {
+		const link = getParentPaths(relativePath).find((parent) =>
+			links.has(parent),
+		);
+		if (link) {
+			throw new Error(
+				`${label} contains a path below the symlink ${link}: ${relativePath}`,
+			);
+		}
+	}
+}
+
+export function getDefaultBundleName(sessionId: string): string {
+	return `undo-redo-${sessionId}${BUNDLE_EXTENSION}`;
+}
+
+function addHashes(manifest: Manifest, hashes: Set<string>): void {
+	for (const entry of manifest.values()) {
+		if (entry.exists && entry.hash) hashes.add(entry.hash);
+	}
+}
+
+function toLine(record: BundleHeader | BundleRecord): string {
+	return `${JSON.stringify(record)}\n`;
+}
+
+export async function exportBundle(
+	cache: Cache,
+	outputPath: string,
+	source: BundleSource,
+): Promise<BundleSummary> {
+	const createdAt = Date.now();
+	let leafCount = 0;
+	let blobCount = 0;
+	let broken: string[] = [];
+	async function* records(): AsyncGenerator<string> {
+		yield toLine({
+			format: BUNDLE_FORMAT,
+			version: BUNDLE_VERSION,
+			cacheVersion: CACHE_VERSION,
+			createdAt,
+			source,
+		});
+		// Only the snapshots of what is exported, not those GC keeps for the
+		// cache's previous manifest generations.
+		const hashes = new Set<string>();
+		const base = (await cache.readBase()) ?? new Map();
+		addHashes(base, hashes);
+		yield toLine({ base: Object.fromEntries(base) });
+		const listing = await cache.readLeaves();
+		broken = listing.broken;
+		for (const [leafId, leaf] of listing.leaves) {
+			addHashes(leaf, hashes);
+			yield toLine({ leaf: leafId, files: Object.fromEntries(leaf) });
+			leafCount++;
+		}
+		for (const hash of hashes) {
+			if (!cache.hasBlob(hash)) {
+				throw new Error(
+					`Snapshot ${hash} is missing from the cache; run /undo-redo-fsck before exporting.`,
+				);
+			}
+			const data = (await cache.readBlob(hash)).toString("base64");
+			yield toLine({ blob: hash, data });
+			blobCount++;
+		}
+	}
+
+	await writeStreamAtomic(outputPath, records(), createGzip());
+	return {
+		source,
+		createdAt,
+		leafCount,
+		blobCount,
+		bytes: (await stat(outputPath)).size,
+		broken,
+	};
+}
+
+function readManifest(
+	record: ManifestRecord,
+	cacheVersion: number,
+	kind: ManifestKind,
+	label: string,
+): Manifest {
+	const migrated = migrateManifestPayload(
+		{ version: cacheVersion, files: record },
+		kind,
+		label,
+	);
+	const manifest: Manifest = new Map(Object.entries(migrated.files ?? {}));
+	for (const [relativePath, entry] of manifest) {
+		if (!isSafeRelativePath(relativePath)) {
+			throw new Error(`${label} contains an unsafe path: ${relativePath}`);
+		}
+		if (
+			entry.kind === "symlink" &&
+			entry.target !== undefined &&
+			!isSafeSymlinkTarget(entry.target)
+		) {
+			throw new Error(
+				`${label} contains a symlink that points outside the project: ${relativePath} -> ${entry.target}`,
+			);
+		}
+	}
+	return manifest;
+}
+
+// Splits decompressed text into lines without joining more than one line's
+// worth of chunks at a time; a snapshot line can be large.
+async function* splitLines(
+	chunks: AsyncIterable<Buffer>,
+): AsyncGenerator<string> {
+	const decoder = new StringDecoder("utf-8");
+	let pending: string[] = [];
+	for await (const chunk of chunks) {
+		const text = decoder.write(chunk);
+		let start = 0;
+		for (
+			let end = text.indexOf("\n");
+			end !== -1;
+			end = text.indexOf("\n", start)
+		) {
+			pending.push(text.slice(start, end));
+			yield pending.join("");
+			pending = [];
+			start = end + 1;
+		}
+		pending.push(text.slice(start));
+	}
+	pending.push(decoder.end());
+	const last = pending.join("");
+	if (last) yield last;
+}
+
+function checkHeader(header: BundleHeader, bundlePath: string): void {
+	if (header?.format !== BUNDLE_FORMAT) {
+		throw new Error(`${bundlePath} is not an undo/redo bundle`);
+	}
+	if (header.version > BUNDLE_VERSION) {
+		throw new Error(
+			`${bundlePath} uses bundle version ${header.version}, but this extension only supports up to version ${BUNDLE_VERSION}.`,
+		);
+	}
+}
+
+// Replaces the cache's history with the bundle's. Manifests only hold paths
+// relative to the project root, so the history applies to any checkout.
+// Snapshots are stored as they are read and verified; if a later record turns
+// out to be invalid, the history is left alone and GC drops them.
+export async function importBundle(
+	cache: Cache,
+	bundlePath: string,
+): Promise<BundleSummary> {
+	const label = path.basename(bundlePath);
+	const notABundle = () =>
+		new Error(`${bundlePath} is not an undo/redo bundle`);
+	let header: BundleHeader | undefined;
+	let base: Manifest | undefined;
+	const leaves = new Map<string, Manifest>();
+	let blobCount = 0;
+
+	const readRecord = async (line: string): Promise<void> => {
+		let record: BundleHeader & BundleRecord;
+		try {
+			record = JSON.parse(line);
+		} catch {
+			throw notABundle();
+		}
+		if (!header) {
+			checkHeader(record, bundlePath);
+			header = record;
+			return;
+		}
+		if (record.base) {
+			base = readManifest(
+				record.base,
+				header.cacheVersion,
+				"base",
+				`${label} (base)`,
+			);
+			checkSymlinks(base, `${label} (base)`);
+		} else if (record.leaf !== undefined && record.files && base) {
+			const leafId = record.leaf;
+			if (!isSafeLeafId(leafId)) {
+				throw new Error(`${label} contains an invalid leaf id: ${leafId}`);
+			}
+			const manifest = readManifest(
+				record.files,
+				header.cacheVersion,
+				"leaf",
+				`${label} (${leafId})`,
+			);
+			// Leaves are restored on top of the base.
+			checkSymlinks(new Map([...base, ...manifest]), `${label} (${leafId})`);
+			leaves.set(leafId, manifest);
+		} else if (record.blob !== undefined && record.data !== undefined) {
+			const buffer = Buffer.from(record.data, "base64");
+			if (hashBuffer(buffer) !== record.blob) {
+				throw new Error(`${label} has a corrupt snapshot: ${record.blob}`);
+			}
+			await cache.writeBlob(record.blob, buffer);
+			blobCount++;
+		} else {
+			throw notABundle();
+		}
+	};
+
+	await cache.ensure();
+	// Errors of either stream surface through the loop, and leaving the loop
+	// early closes the file.
+	const input = pipeline(
+		createReadStream(bundlePath),
+		createGunzip(),
+		() => {},
+	);
+	try {
+		for await (const line of splitLines(input)) {
+			if (line) await readRecord(line);
+		}
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		// zlib reports data that is not gzip, or is cut short, with Z_ codes.
+		if (err.code?.startsWith("Z_")) throw notABundle();
+		throw error;
+	}
+	if (!header || !base) throw notABundle();
+
+	await rm(cache.leavesDir, { recursive: true, force: true });
+	await cache.ensure();
+	await cache.writeBase(base);
+	for (const [leafId, manifest] of leaves) {
+		await cache.writeLeaf(leafId, manifest);
+	}
+	await cache.writeUnrestorableLeaves([]);
+
+	return {
+		source: header.source,
+		createdAt: header.createdAt,
+		leafCount: leaves.size,
+		blobCount,
+		bytes: (await stat(bundlePath)).size,
+	};
+}
@@ -1,29 +1,132 @@
 import { createHash } from "node:crypto";
 import { existsSync } from "node:fs";
-import { access, mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import {
+	access,
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	stat,
+	utimes,
+} from "node:fs/promises";
 import { homedir } from "node:os";
 import path from "node:path";
-import type { FileState, Manifest, ManifestRecord } from "./types.js";
+import {
+	type BlobHeader,
+	decodeBlob,
+	encodeBlob,
+	isBlobCodec,
+	readBlobHeader,
+} from "./compression.js";
+import { removeStaleTempFiles, writeFileAtomic } from "./fs-utils.js";
+import {
+	CACHE_VERSION,
+	type ManifestKind,
+	type ManifestPayload,
+	migrateManifestPayload,
+} from "./migrations.js";
+import type {
+	BlobCodec,
+	BlobInfo,
+	BlobStoreStats,
+	CompressionStats,
+	FileState,
+	IntegrityReport,
+	Manifest,
+	ManifestRecord,
+	SessionCacheConfig,
+} from "./types.js";
 
-const CACHE_VERSION = 1;
+const BLOB_NAME = /^[0-9a-f]{64}$/;
+const PREVIOUS_SUFFIX = ".prev";
+const LEAF_FILE_NAME = /^(.+)\.json(?:\.prev)?$/;
+// Every chain of leaf deltas ends in a full manifest at most this many steps back.
+const KEYFRAME_INTERVAL = 16;
+
+interface ResolvedLeaf {
+	manifest: Manifest;
+	chain: string[];
+}
+
+export interface CacheOptions {
+	baseDir?: string;
+	sharedBlobs?: boolean;
+	compression?: BlobCodec;
+}
 
 export interface Cache {
+	baseDir: string;
 	root: string;
 	blobsDir: string;
+	localBlobsDir: string;
+	sharedBlobs: boolean;
 	leavesDir: string;
 	basePath: string;
+	configPath: string;
+	journalPath: string;
+	quarantineDir: string;
 	ensure(): Promise<void>;
+	getCompression(): BlobCodec;
+	setCompression(codec: BlobCodec): void;
+	readConfig(): Promise<SessionCacheConfig>;
+	writeConfig(config: SessionCacheConfig): Promise<void>;
 	writeBlob(hash: string, buffer: Buffer): Promise<void>;
 	readBlob(hash: string): Promise<Buffer>;
+	hasBlob(hash: string): boolean;
+	quarantineBlob(hash: string): Promise<void>;
+	listBlobs(): Promise<BlobInfo[]>;
+	removeBlob(hash: string): Promise<number>;
+	getBlobStats(): Promise<BlobStoreStats>;
+	getCompressionStats(): Promise<CompressionStats>;
 	readBase(): Promise<Manifest | undefined>;
 	writeBase(manifest: Manifest): Promise<void>;
 	readLeaf(leafId: string): Promise<Manifest | undefined>;
-	writeLeaf(leafId: string, manifest: Manifest): Promise<void>;
+	readLeaves(): Promise<{ leaves: Map<string, Manifest>; broken: string[] }>;
+	readStoredManifests(): Promise<Manifest[]>;
+	writeLeaf(
+		leafId: string,
+		manifest: Manifest,
+		options?: { parentId?: string | null },
+	): Promise<void>;
 	listLeafIds(): Promise<string[]>;
+	readUnrestorableLeaves(): Promise<Set<string>>;
+	writeUnrestorableLeaves(leafIds: Iterable<string>): Promise<void>;
 }
 
-export function getCacheRoot(sessionId: string): string {
-	return path.join(homedir(), ".pi", "agent", "cache", "undo-redo", sessionId);
+export function getCacheBaseDir(): string {
+	return path.join(homedir(), ".pi", "agent", "cache", "undo-redo");
+}
+
+export function getCacheRoot(
+	sessionId: string,
+	baseDir = getCacheBaseDir(),
+): string {
+	return path.join(baseDir, sessionId);
+}
+
+export function getSharedBlobsDir(baseDir = getCacheBaseDir()): string {
+	return path.join(baseDir, ".shared", "blobs");
+}
+
+export async function listBlobDirectory(blobsDir: string): Promise<BlobInfo[]> {
+	if (!existsSync(blobsDir)) return [];
+	const entries = await readdir(blobsDir, { withFileTypes: true });
+	const blobs: BlobInfo[] = [];
+	for (const entry of entries) {
+		if (!entry.isFile() || !BLOB_NAME.test(entry.name)) continue;
+		try {
+			const blobStats = await stat(path.join(blobsDir, entry.name));
+			blobs.push({
+				hash: entry.name,
+				size: blobStats.size,
+				mtimeMs: blobStats.mtimeMs,
+			});
+		} catch {
+			// Blob removed concurrently; skip it.
+		}
+	}
+	return blobs;
 }
 
 function serializeManifest(manifest: Manifest): ManifestRecord {
@@ -43,73 +146,574 @@ function deserializeManifest(record: ManifestRecord | undefined): Manifest {
 	return manifest;
 }
 
+function isSameEntry(left: FileState, right: FileState | undefined): boolean {
+	return (
+		right !== undefined &&
+		left.exists === right.exists &&
+		left.kind === right.kind &&
+		left.hash === right.hash &&
+		left.size === right.size &&
+		left.binary === right.binary &&
+		left.mode === right.mode &&
+		left.target === right.target
+	);
+}
+
+function isSameManifest(left: Manifest, right: Manifest): boolean {
+	if (left.size !== right.size) return false;
+	for (const [filePath, entry] of left) {
+		if (!isSameEntry(entry, right.get(filePath))) return false;
+	}
+	return true;
+}
+
+async function parseManifestFile(
+	filePath: string,
+	kind: ManifestKind,
+): Promise<ManifestPayload> {
+	const raw = await readFile(filePath, "utf-8");
+	return migrateManifestPayload(
+		JSON.parse(raw) as ManifestPayload,
+		kind,
+		filePath,
+	);
+}
+
+async function readManifestPayload(
+	filePath: string,
+	kind: ManifestKind,
+): Promise<ManifestPayload | undefined> {
+	const previousPath = `${filePath}${PREVIOUS_SUFFIX}`;
+	if (!existsSync(filePath)) {
+		// A crash between the two renames in writeFileAtomic leaves only the
+		// previous generation behind.
+		if (!existsSync(previousPath)) return undefined;
+		return parseManifestFile(previousPath, kind);
+	}
+	try {
+		return await parseManifestFile(filePath, kind);
+	} catch (error) {
+		if (!(error instanceof SyntaxError) || !existsSync(previousPath)) {
+			throw error;
+		}
+		return parseManifestFile(previousPath, kind);
+	}
+}
+
+// The previous generation on its own; a damaged one is only a fallback, so
+// it counts as absent.
+async function readPreviousGeneration(
+	filePath: string,
+	kind: ManifestKind,
+): Promise<Manifest | undefined> {
+	try {
+		const payload = await parseManifestFile(
+			`${filePath}${PREVIOUS_SUFFIX}`,
+			kind,
+		);
+		return payload.files ? deserializeManifest(payload.files) : undefined;
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT" || error instanceof SyntaxError) return undefined;
+		throw error;
+	}
+}
+
 async function readManifestFile(
 	filePath: string,
+	kind: ManifestKind,
 ): Promise<Manifest | undefined> {
-	if (!existsSync(filePath)) return undefined;
-	const raw = await readFile(filePath, "utf-8");
-	const parsed = JSON.parse(raw) as {
-		version?: number;
-		files?: ManifestRecord;
-	};
-	if (!parsed.files) return undefined;
-	return deserializeManifest(parsed.files);
+	const payload = await readManifestPayload(filePath, kind);
+	if (!payload?.files) return undefined;
+	return deserializeManifest(payload.files);
 }
 
 async function writeManifestFile(
 	filePath: string,
 	manifest: Manifest,
+	delta?: { parent: string; removed: string[] },
 ): Promise<void> {
-	const payload = {
+	const payload: ManifestPayload = {
 		version: CACHE_VERSION,
+		...(delta && { parent: delta.parent }),
+		...(delta?.removed.length && { removed: delta.removed }),
 		files: serializeManifest(manifest),
 	};
-	await writeFile(filePath, JSON.stringify(payload, null, 2), "utf-8");
+	await writeFileAtomic(filePath, JSON.stringify(payload, null, 2), {
+		previousPath: `${filePath}${PREVIOUS_SUFFIX}`,
+	});
 }
 
-export function createCache(sessionId: string): Cache {
-	const root = getCacheRoot(sessionId);
-	const blobsDir = path.join(root, "blobs");
+export async function removeBlobFile(
+	blobsDir: string,
+	hash: string,
+): Promise<number> {
+	const blobPath = path.join(blobsDir, hash);
+	try {
+		const blobStats = await stat(blobPath);
+		await rm(blobPath, { force: true });
+		return blobStats.size;
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return 0;
+		throw error;
+	}
+}
+
+export function createCache(
+	sessionId: string,
+	options: CacheOptions = {},
+): Cache {
+	const baseDir = options.baseDir ?? getCacheBaseDir();
+	const sharedBlobs = options.sharedBlobs ?? false;
+	const root = getCacheRoot(sessionId, baseDir);
+	const localBlobsDir = path.join(root, "blobs");
+	const blobsDir = sharedBlobs ? getSharedBlobsDir(baseDir) : localBlobsDir;
 	const leavesDir = path.join(root, "leaves");
 	const basePath = path.join(root, "base.json");
+	const configPath = path.join(root, "config.json");
+	const journalPath = path.join(root, "restore-journal.json");
+	const unrestorablePath = path.join(root, "unrestorable.json");
+	const quarantineDir = path.join(path.dirname(blobsDir), "quarantine");
+	let compression: BlobCodec = options.compression ?? "none";
+	const getLeafPath = (leafId: string) =>
+		path.join(leavesDir, `${leafId}.json`);
+
+	// A leaf file holds either a full manifest or the entries that differ from
+	// its parent leaf, plus the paths the parent has and it does not. `chain`
+	// runs from the leaf to its keyframe. Passing `resolved` keeps every leaf
+	// met on the way, so a listing reads each file once; those manifests are
+	// then copied, not changed in place.
+	const resolveLeaf = async (
+		leafId: string,
+		resolved?: Map<string, ResolvedLeaf>,
+		pending: string[] = [],
+	): Promise<ResolvedLeaf | undefined> => {
+		const known = resolved?.get(leafId);
+		if (known) return known;
+		if (pending.includes(leafId)) {
+			throw new Error(`Leaf manifest ${leafId} has a cyclic parent chain`);
+		}
+		const payload = await readManifestPayload(getLeafPath(leafId), "leaf");
+		if (!payload?.files) return undefined;
+		const files = deserializeManifest(payload.files);
+		let leaf: ResolvedLeaf = { manifest: files, chain: [leafId] };
+		if (typeof payload.parent === "string") {
+			const parent = await resolveLeaf(payload.parent, resolved, [
+				...pending,
+				leafId,
+			]);
+			if (!parent) {
+				throw new Error(
+					`Leaf manifest ${leafId} depends on missing leaf ${payload.parent}`,
+				);
+			}
+			const manifest = resolved ? new Map(parent.manifest) : parent.manifest;
+			for (const filePath of (payload.removed as string[] | undefined) ?? []) {
+				manifest.delete(filePath);
+			}
+			for (const [filePath, entry] of files) {
+				manifest.set(filePath, entry);
+			}
+			leaf = { manifest, chain: [leafId, ...parent.chain] };
+		}
+		resolved?.set(leafId, leaf);
+		return leaf;
+	};
+
+	// Every leaf, for listings. A leaf whose delta chain is broken is reported
+	// instead of failing the whole listing.
+	const readLeaves = async () => {
+		const resolved = new Map<string, ResolvedLeaf>();
+		const leaves = new Map<string, Manifest>();
+		const broken: string[] = [];
+		for (const leafId of await listLeafIds()) {
+			try {
+				const leaf = await resolveLeaf(leafId, resolved);
+				if (leaf) leaves.set(leafId, leaf.manifest);
+				else broken.push(leafId);
+			} catch {
+				broken.push(leafId);
+			}
+		}
+		return { leaves, broken };
+	};
+
+	// The manifests as stored, deltas left unresolved, with their previous
+	// generations: reads fall back to those, so their snapshots must survive
+	// GC too. Every hash a leaf resolves to is in one of them, even when its
+	// chain is broken.
+	const readStoredManifests = async () => {
+		const manifests: Manifest[] = [];
+		const files: [string, ManifestKind][] = [
+			[basePath, "base"],
+			...(await listLeafIds()).map((leafId): [string, ManifestKind] => [
+				getLeafPath(leafId),
+				"leaf",
+			]),
+		];
+		for (const [filePath, kind] of files) {
+			const manifest = await readManifestFile(filePath, kind);
+			if (manifest) manifests.push(manifest);
+			const previous = await readPreviousGeneration(filePath, kind);
+			if (previous) manifests.push(previous);
+		}
+		return manifests;
+	};
+
+	// A leaf whose write was interrupted between the two renames survives only
+	// as its previous generation.
+	const listLeafIds = async () => {
+		if (!existsSync(leavesDir)) return [];
+		const entries = await readdir(leavesDir, { withFileTypes: true });
+		const leafIds = new Set<string>();
+		for (const entry of entries) {
+			const match = entry.name.match(LEAF_FILE_NAME);
+			if (entry.isFile() && match) leafIds.add(match[1]);
+		}
+		return [...leafIds];
+	};
+
+	// The leaves stored as deltas against each leaf, so a rewrite only reads
+	// its own children. A link may outlive the delta it was written for; the
+	// child's `parent` field is what counts.
+	const childrenDir = path.join(leavesDir, "children");
+	const getChildrenPath = (leafId: string) =>
+		path.join(childrenDir, `${leafId}.json`);
+	const readChildren = async (leafId: string): Promise<string[]> => {
+		try {
+			const raw = await readFile(getChildrenPath(leafId), "utf-8");
+			return (JSON.parse(raw) as { children?: string[] }).children ?? [];
+		} catch (error) {
+			const err = error as NodeJS.ErrnoException;
+			if (err.code === "ENOENT" || error instanceof SyntaxError) return [];
+			throw error;
+		}
+	};
+	const writeChildren = async (
+		leafId: string,
+		children: string[],
+		dir = childrenDir,
+	) => {
+		const filePath = path.join(dir, `${leafId}.json`);
+		if (children.length === 0) {
+			await rm(filePath, { force: true });
+			return;
+		}
+		await mkdir(dir, { recursive: true });
+		await writeFileAtomic(filePath, JSON.stringify({ children }));
+	};
+
+	// Caches written before the links existed get them built once from the
+	// leaf files.
+	let childIndexReady = false;
+	const ensureChildIndex = async () => {
+		if (childIndexReady || existsSync(childrenDir)) {
+			childIndexReady = true;
+			return;
+		}
+		const children = new Map<string, string[]>();
+		for (const childId of await listLeafIds()) {
+			const payload = await readManifestPayload(getLeafPath(childId), "leaf");
+			if (typeof payload?.parent !== "string") continue;
+			children.set(payload.parent, [
+				...(children.get(payload.parent) ?? []),
+				childId,
+			]);
+		}
+		const partialDir = `${childrenDir}.partial`;
+		await rm(partialDir, { recursive: true, force: true });
+		await mkdir(partialDir, { recursive: true });
+		for (const [parentId, childIds] of children) {
+			await writeChildren(parentId, childIds, partialDir);
+		}
+		await rename(partialDir, childrenDir);
+		childIndexReady = true;
+	};
+
+	// Leaves stored as deltas against `leafId` are rewritten as full manifests
+	// before `leafId` changes underneath them.
+	const detachChildren = async (leafId: string) => {
+		await ensureChildIndex();
+		for (const childId of await readChildren(leafId)) {
+			if (childId === leafId) continue;
+			const payload = await readManifestPayload(getLeafPath(childId), "leaf");
+			if (payload?.parent !== leafId) continue;
+			const child = await resolveLeaf(childId);
+			if (child) {
+				await writeManifestFile(getLeafPath(childId), child.manifest);
+			}
+		}
+		await writeChildren(leafId, []);
+	};
+
+	const writeLeaf = async (
+		leafId: string,
+		manifest: Manifest,
+		options: { parentId?: string | null } = {},
+	) => {
+		const filePath = getLeafPath(leafId);
+		if (existsSync(filePath)) {
+			const previous = await resolveLeaf(leafId).catch(() => undefined);
+			if (previous && isSameManifest(previous.manifest, manifest)) return;
+			await detachChildren(leafId);
+		}
+
+		const parentId = options.parentId;
+		const parent =
+			parentId && parentId !== leafId
+				? await resolveLeaf(parentId).catch(() => undefined)
+				: undefined;
+		if (
+			!parentId ||
+			!parent ||
+			parent.chain.length >= KEYFRAME_INTERVAL ||
+			parent.chain.includes(leafId)
+		) {
+			await writeManifestFile(filePath, manifest);
+			return;
+		}
+
+		const changed: Manifest = new Map();
+		for (const [entryPath, entry] of manifest) {
+			if (!isSameEntry(entry, parent.manifest.get(entryPath))) {
+				changed.set(entryPath, entry);
+			}
+		}
+		const removed = [...parent.manifest.keys()].filter(
+			(entryPath) => !manifest.has(entryPath),
+		);
+		// Linked first: a crash in between leaves a stale link, not a delta
+		// that a rewrite of its parent would miss.
+		await ensureChildIndex();
+		const siblings = await readChildren(parentId);
+		if (!siblings.includes(leafId)) {
+			await writeChildren(parentId, [...siblings, leafId]);
+		}
+		await writeManifestFile(filePath, changed, { parent: parentId, removed });
+	};
 
 	return {
+		baseDir,
 		root,
 		blobsDir,
+		localBlobsDir,
+		sharedBlobs,
 		leavesDir,
 		basePath,
+		configPath,
+		journalPath,
+		quarantineDir,
 		ensure: async () => {
 			await mkdir(blobsDir, { recursive: true });
+			await mkdir(localBlobsDir, { recursive: true });
 			await mkdir(leavesDir, { recursive: true });
+			for (const dir of [root, blobsDir, localBlobsDir, leavesDir]) {
+				await removeStaleTempFiles(dir);
+			}
+		},
+		getCompression: () => compression,
+		setCompression: (codec: BlobCodec) => {
+			compression = codec;
+		},
+		readConfig: async () => {
+			if (!existsSync(configPath)) return {};
+			const raw = await readFile(configPath, "utf-8");
+			let parsed: SessionCacheConfig;
+			try {
+				parsed = JSON.parse(raw) as SessionCacheConfig;
+			} catch {
+				return {};
+			}
+			const config: SessionCacheConfig = {};
+			if (parsed.compression && isBlobCodec(parsed.compression)) {
+				config.compression = parsed.compression;
+			}
+			return config;
+		},
+		writeConfig: async (config: SessionCacheConfig) => {
+			await mkdir(root, { recursive: true });
+			await writeFileAtomic(configPath, JSON.stringify(config, null, 2));
 		},
 		writeBlob: async (hash: string, buffer: Buffer) => {
 			const blobPath = path.join(blobsDir, hash);
 			try {
 				await access(blobPath);
+				if (sharedBlobs) {
+					// Refresh the timestamp so shared GC treats the blob as recently used.
+					const now = new Date();
+					await utimes(blobPath, now, now);
+				}
 				return;
 			} catch {
 				// Continue to write.
 			}
-			await writeFile(blobPath, buffer);
+			await writeFileAtomic(blobPath, await encodeBlob(buffer, compression));
 		},
 		readBlob: async (hash: string) => {
-			const blobPath = path.join(blobsDir, hash);
-			return readFile(blobPath);
+			try {
+				return await decodeBlob(await readFile(path.join(blobsDir, hash)));
+			} catch (error) {
+				const err = error as NodeJS.ErrnoException;
+				if (err.code !== "ENOENT" || blobsDir === localBlobsDir) {
+					throw error;
+				}
+				return decodeBlob(await readFile(path.join(localBlobsDir, hash)));
+			}
+		},
+		hasBlob: (hash: string) =>
+			existsSync(path.join(blobsDir, hash)) ||
+			existsSync(path.join(localBlobsDir, hash)),
+		quarantineBlob: async (hash: string) => {
+			await mkdir(quarantineDir, { recursive: true });
+			for (const dir of new Set([blobsDir, localBlobsDir])) {
+				const blobPath = path.join(dir, hash);
+				if (existsSync(blobPath)) {
+					await rename(blobPath, path.join(quarantineDir, hash));
+				}
+			}
+		},
+		listBlobs: async () => listBlobDirectory(blobsDir),
+		removeBlob: async (hash: string) => removeBlobFile(blobsDir, hash),
+		getBlobStats: async () => {
+			const blobs = await listBlobDirectory(blobsDir);
+			return {
+				count: blobs.length,
+				bytes: blobs.reduce((sum, blob) => sum + blob.size, 0),
+			};
+		},
+		getCompressionStats: async () => {
+			const stats: CompressionStats = {
+				blobCount: 0,
+				storedBytes: 0,
+				originalBytes: 0,
+				codecCounts: { none: 0, gzip: 0, brotli: 0 },
+			};
+			for (const blob of await listBlobDirectory(blobsDir)) {
+				let header: BlobHeader | undefined;
+				try {
+					header = await readBlobHeader(path.join(blobsDir, blob.hash));
+				} catch {
+					continue;
+				}
+				stats.blobCount += 1;
+				stats.storedBytes += blob.size;
+				stats.originalBytes += header?.originalSize ?? blob.size;
+				stats.codecCounts[header?.codec ?? "none"] += 1;
+			}
+			return stats;
 		},
-		readBase: async () => readManifestFile(basePath),
+		readBase: async () => readManifestFile(basePath, "base"),
 		writeBase: async (manifest: Manifest) =>
 			writeManifestFile(basePath, manifest),
-		readLeaf: async (leafId: string) =>
-			readManifestFile(path.join(leavesDir, `${leafId}.json`)),
-		writeLeaf: async (leafId: string, manifest: Manifest) =>
-			writeManifestFile(path.join(leavesDir, `${leafId}.json`), manifest),
-		listLeafIds: async () => {
-			if (!existsSync(leavesDir)) return [];
-			const entries = await readdir(leavesDir, { withFileTypes: true });
-			return entries
-				.filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
-				.map((entry) => entry.name.replace(/\.json$/, ""));
+		readLeaf: async (leafId: string) => (await resolveLeaf(leafId))?.manifest,
+		readLeaves,
+		readStoredManifests,
+		writeLeaf,
+		listLeafIds,
+		readUnrestorableLeaves: async () => {
+			if (!existsSync(unrestorablePath)) return new Set<string>();
+			const raw = await readFile(unrestorablePath, "utf-8");
+			try {
+				const parsed = JSON.parse(raw) as { leaves?: string[] };
+				return new Set(parsed.leaves ?? []);
+			} catch {
+				return new Set<string>();
+			}
 		},
+		writeUnrestorableLeaves: async (leafIds: Iterable<string>) => {
+			const leaves = [...leafIds].sort();
+			if (leaves.length === 0) {
+				await rm(unrestorablePath, { force: true });
+				return;
+			}
+			await writeFileAtomic(
+				unrestorablePath,
+				JSON.stringify({ leaves }, null, 2),
+			);
+		},
+	};
+}
+
+function collectHashes(manifest: Manifest, target: Set<string>): void {
+	for (const entry of manifest.values()) {
+		if (entry.exists && entry.hash) {
+			target.add(entry.hash);
+		}
+	}
+}
+
+export async function checkCacheIntegrity(
+	cache: Cache,
+	options: { quarantine?: boolean } = {},
+): Promise<IntegrityReport> {
+	const base = (await cache.readBase()) ?? new Map<string, FileState>();
+	const { leaves: resolved, broken } = await cache.readLeaves();
+	const leaves = new Map<string, Manifest | undefined>(resolved);
+	for (const leafId of broken) {
+		leaves.set(leafId, undefined);
+	}
+
+	const referenced = new Set<string>();
+	collectHashes(base, referenced);
+	for (const leaf of leaves.values()) {
+		if (leaf) collectHashes(leaf, referenced);
+	}
+
+	const blobs = (await cache.listBlobs()).filter((blob) =>
+		BLOB_NAME.test(blob.hash),
+	);
+	const corruptBlobs: string[] = [];
+	for (const blob of blobs) {
+		try {
+			const buffer = await cache.readBlob(blob.hash);
+			if (hashBuffer(buffer) !== blob.hash) {
+				corruptBlobs.push(blob.hash);
+			}
+		} catch {
+			corruptBlobs.push(blob.hash);
+		}
+	}
+
+	const missingBlobs = [...referenced].filter((hash) => !cache.hasBlob(hash));
+	// Other sessions reference the shared store, so orphans are only meaningful
+	// for a session-local blob directory.
+	const orphanBlobs = cache.sharedBlobs
+		? []
+		: blobs.map((blob) => blob.hash).filter((hash) => !referenced.has(hash));
+
+	const bad = new Set([...corruptBlobs, ...missingBlobs]);
+	const unrestorableLeaves: string[] = [];
+	for (const [leafId, leaf] of leaves) {
+		if (!leaf) {
+			unrestorableLeaves.push(leafId);
+			continue;
+		}
+		const merged = new Map([...base, ...leaf]);
+		for (const entry of merged.values()) {
+			if (entry.exists && entry.hash && bad.has(entry.hash)) {
+				unrestorableLeaves.push(leafId);
+				break;
+			}
+		}
+	}
+
+	const quarantinedBlobs: string[] = [];
+	if (options.quarantine) {
+		for (const hash of corruptBlobs) {
+			await cache.quarantineBlob(hash);
+			quarantinedBlobs.push(hash);
+		}
+	}
+	await cache.writeUnrestorableLeaves(unrestorableLeaves);
+
+	return {
+		checkedBlobs: blobs.length,
+		corruptBlobs,
+		missingBlobs,
+		orphanBlobs,
+		quarantinedBlobs,
+		unrestorableLeaves,
 	};
 }
 
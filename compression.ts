@@ -0,0 +1,125 @@
+import { open } from "node:fs/promises";
+import { promisify } from "node:util";
+import {
+	brotliCompress,
+	brotliDecompress,
+	gunzip,
+	gzip,
+	constants as zlibConstants,
+} from "node:zlib";
+import type { BlobCodec } from "./types.js";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const brotliCompressAsync = promisify(brotliCompress);
+const brotliDecompressAsync = promisify(brotliDecompress);
+
+// "\0PIUR" never starts a text file, and stored blobs that happen to begin
+// with it are wrapped so raw legacy blobs stay unambiguous.
+const BLOB_MAGIC = Buffer.from([0x00, 0x50, 0x49, 0x55, 0x52]);
+const HEADER_SIZE = BLOB_MAGIC.length + 1 + 6;
+const MAX_RECORDED_SIZE = 2 ** 48 - 1;
+
+const CODEC_IDS: Record<BlobCodec, number> = {
+	none: 0,
+	gzip: 1,
+	brotli: 2,
+};
+
+export const BLOB_CODECS = Object.keys(CODEC_IDS) as BlobCodec[];
+
+export function isBlobCodec(value: string): value is BlobCodec {
+	return Object.hasOwn(CODEC_IDS, value);
+}
+
+export interface BlobHeader {
+	codec: BlobCodec;
+	originalSize: number;
+}
+
+function codecFromId(id: number): BlobCodec | undefined {
+	return BLOB_CODECS.find((codec) => CODEC_IDS[codec] === id);
+}
+
+export function parseBlobHeader(data: Buffer): BlobHeader | undefined {
+	if (data.length < HEADER_SIZE) return undefined;
+	if (!data.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC)) {
+		return undefined;
+	}
+	const codec = codecFromId(data[BLOB_MAGIC.length]);
+	if (!codec) return undefined;
+	return {
+		codec,
+		originalSize: data.readUIntBE(BLOB_MAGIC.length + 1, 6),
+	};
+}
+
+function createHeader(codec: BlobCodec, originalSize: number): Buffer {
+	const header = Buffer.alloc(HEADER_SIZE);
+	BLOB_MAGIC.copy(header, 0);
+	header[BLOB_MAGIC.length] = CODEC_IDS[codec];
+	header.writeUIntBE(
+		Math.min(originalSize, MAX_RECORDED_SIZE),
+		BLOB_MAGIC.length + 1,
+		6,
+	);
+	return header;
+}
+
+async function compress(buffer: Buffer, codec: BlobCodec): Promise<Buffer> {
+	switch (codec) {
+		case "gzip":
+			return gzipAsync(buffer);
+		case "brotli":
+			return brotliCompressAsync(buffer, {
+				params: {
+					[zlibConstants.BROTLI_PARAM_SIZE_HINT]: buffer.length,
+				},
+			});
+		case "none":
+			return buffer;
+	}
+}
+
+export async function encodeBlob(
+	buffer: Buffer,
+	codec: BlobCodec,
+): Promise<Buffer> {
+	if (codec !== "none") {
+		const compressed = await compress(buffer, codec);
+		if (compressed.length + HEADER_SIZE < buffer.length) {
+			return Buffer.concat([createHeader(codec, buffer.length), compressed]);
+		}
+	}
+	if (buffer.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC)) {
+		return Buffer.concat([createHeader("none", buffer.length), buffer]);
+	}
+	return buffer;
+}
+
+export async function decodeBlob(data: Buffer): Promise<Buffer> {
+	const header = parseBlobHeader(data);
+	if (!header) return data;
+	const payload = data.subarray(HEADER_SIZE);
+	switch (header.codec) {
+		case "gzip":
+			return gunzipAsync(payload);
+		case "brotli":
+			return brotliDecompressAsync(payload);
+		case "none":
+			return payload;
+	}
+}
+
+export async function readBlobHeader(
+	blobPath: string,
+): Promise<BlobHeader | undefined> {
+	const handle = await open(blobPath, "r");
+	try {
+		const buffer = Buffer.alloc(HEADER_SIZE);
+		const { bytesRead } = await handle.read(buffer, 0, HEADER_SIZE, 0);
+		return parseBlobHeader(buffer.subarray(0, bytesRead));
+	} finally {
+		await handle.close();
+	}
+}
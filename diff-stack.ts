@@ -4,17 +4,37 @@ import type {
 } from "@mariozechner/pi-coding-agent";
 import * as Diff from "diff";
 import type { Cache } from "./cache.js";
-import type { SnapshotTracker } from "./tracker.js";
-import type { ChangeType, DiffItem, FileState, Manifest } from "./types.js";
+import { isSameFileState, type SnapshotTracker } from "./tracker.js";
+import type {
+	ChangeType,
+	DiffItem,
+	FileState,
+	Manifest,
+	RestoreAction,
+	RestorePreviewItem,
+} from "./types.js";
+
+export const DEFAULT_DIFF_CONTEXT_LINES = 4;
+
+// Same default as git: a deleted and an added file pair up as a rename when
+// at least half of their lines are shared.
+const RENAME_SIMILARITY_THRESHOLD = 0.5;
+const MAX_RENAME_PAIRS = 1000;
 
-interface UiDiffItem {
+type ChangeCode = "A" | "M" | "D" | "R";
+
+interface LeafChange {
+	path: string;
+	oldPath?: string;
+	change: ChangeCode;
+}
+
+interface UiDiffItem extends LeafChange {
 	label: string;
 	leafId: string;
-	path: string;
-	change: "A" | "M" | "D";
 }
 
-function describeChange(
+export function describeChange(
 	baseEntry: FileState | undefined,
 	leafEntry: FileState | undefined,
 ): "A" | "M" | "D" | null {
@@ -23,12 +43,12 @@ function describeChange(
 
 	if (!baseExists && leafExists) return "A";
 	if (baseExists && !leafExists) return "D";
-	if (baseExists && leafExists && baseEntry?.hash !== leafEntry?.hash)
+	if (leafEntry && baseExists && !isSameFileState(leafEntry, baseEntry))
 		return "M";
 	return null;
 }
 
-function toChangeType(change: "A" | "M" | "D"): ChangeType {
+function toChangeType(change: ChangeCode): ChangeType {
 	switch (change) {
 		case "A":
 			return "added";
@@ -36,13 +56,152 @@ function toChangeType(change: "A" | "M" | "D"): ChangeType {
 			return "modified";
 		case "D":
 			return "deleted";
+		case "R":
+			return "renamed";
+	}
+}
+
+function isRenameCandidate(entry: FileState | undefined): boolean {
+	return (
+		entry?.exists === true &&
+		(entry.kind ?? "file") === "file" &&
+		entry.hash !== undefined
+	);
+}
+
+function countLines(text: string): number {
+	if (!text) return 0;
+	const lines = text.split("\n").length;
+	return text.endsWith("\n") ? lines - 1 : lines;
+}
+
+async function computeSimilarity(
+	cache: Cache,
+	oldEntry: FileState,
+	newEntry: FileState,
+	texts: Map<string, string>,
+): Promise<number> {
+	if (oldEntry.binary || newEntry.binary) return 0;
+	const oldSize = oldEntry.size ?? 0;
+	const newSize = newEntry.size ?? 0;
+	const largest = Math.max(oldSize, newSize);
+	if (
+		largest > 0 &&
+		Math.min(oldSize, newSize) / largest < RENAME_SIMILARITY_THRESHOLD
+	)
+		return 0;
+
+	const readText = async (hash: string): Promise<string> => {
+		let text = texts.get(hash);
+		if (text === undefined) {
+			text = (await cache.readBlob(hash)).toString("utf-8");
+			texts.set(hash, text);
+		}
+		return text;
+	};
+	const oldText = await readText(oldEntry.hash as string);
+	const newText = await readText(newEntry.hash as string);
+	const total = countLines(oldText) + countLines(newText);
+	if (total === 0) return 1;
+
+	let shared = 0;
+	for (const part of Diff.diffLines(oldText, newText)) {
+		if (!part.added && !part.removed) shared += part.count ?? 0;
+	}
+	return (2 * shared) / total;
+}
+
+// Pairs deleted and added files into renames: identical content first, then
+// the most similar remaining pairs above the threshold.
+async function detectRenames(
+	cache: Cache,
+	baseManifest: Manifest,
+	leafManifest: Manifest,
+	changes: LeafChange[],
+): Promise<LeafChange[]> {
+	const deleted = new Set(
+		changes
+			.filter(
+				(item) =>
+					item.change === "D" && isRenameCandidate(baseManifest.get(item.path)),
+			)
+			.map((item) => item.path),
+	);
+	const added = changes
+		.filter(
+			(item) =>
+				item.change === "A" && isRenameCandidate(leafManifest.get(item.path)),
+		)
+		.map((item) => item.path);
+	if (deleted.size === 0 || added.length === 0) return changes;
+
+	const renames = new Map<string, string>();
+	for (const newPath of added) {
+		const hash = leafManifest.get(newPath)?.hash;
+		const oldPath = [...deleted].find(
+			(candidate) => baseManifest.get(candidate)?.hash === hash,
+		);
+		if (!oldPath) continue;
+		renames.set(newPath, oldPath);
+		deleted.delete(oldPath);
 	}
+
+	const remaining = added.filter((newPath) => !renames.has(newPath));
+	if (
+		remaining.length > 0 &&
+		deleted.size > 0 &&
+		remaining.length * deleted.size <= MAX_RENAME_PAIRS
+	) {
+		const texts = new Map<string, string>();
+		const pairs: { oldPath: string; newPath: string; score: number }[] = [];
+		for (const newPath of remaining) {
+			for (const oldPath of deleted) {
+				const score = await computeSimilarity(
+					cache,
+					baseManifest.get(oldPath) as FileState,
+					leafManifest.get(newPath) as FileState,
+					texts,
+				);
+				if (score >= RENAME_SIMILARITY_THRESHOLD) {
+					pairs.push({ oldPath, newPath, score });
+				}
+			}
+		}
+		pairs.sort((left, right) => right.score - left.score);
+		for (const { oldPath, newPath } of pairs) {
+			if (renames.has(newPath) || !deleted.has(oldPath)) continue;
+			renames.set(newPath, oldPath);
+			deleted.delete(oldPath);
+		}
+	}
+
+	if (renames.size === 0) return changes;
+	const renamedFrom = new Set(renames.values());
+	return changes
+		.filter((item) => !(item.change === "D" && renamedFrom.has(item.path)))
+		.map((item) => {
+			const oldPath = item.change === "A" ? renames.get(item.path) : undefined;
+			return oldPath ? { path: item.path, oldPath, change: "R" } : item;
+		});
+}
+
+async function collectLeafChanges(
+	cache: Cache,
+	baseManifest: Manifest,
+	leafManifest: Manifest,
+): Promise<LeafChange[]> {
+	const changes: LeafChange[] = [];
+	for (const [filePath, leafEntry] of leafManifest) {
+		const change = describeChange(baseManifest.get(filePath), leafEntry);
+		if (change) changes.push({ path: filePath, change });
+	}
+	return detectRenames(cache, baseManifest, leafManifest, changes);
 }
 
 function generateDiffString(
 	oldContent: string,
 	newContent: string,
-	contextLines = 4,
+	contextLines = DEFAULT_DIFF_CONTEXT_LINES,
 ): { diff: string; firstChangedLine: number | undefined } {
 	const parts = Diff.diffLines(oldContent, newContent);
 	const output: string[] = [];
@@ -132,10 +291,30 @@ function generateDiffString(
 	return { diff: output.join("\n"), firstChangedLine };
 }
 
+function describeEntry(entry: FileState | undefined): string {
+	if (!entry?.exists) return "(missing)";
+	if (entry.kind === "symlink") return `symlink to ${entry.target}`;
+	if (entry.kind === "directory") return "directory";
+	return "regular file";
+}
+
+function describeModeChange(
+	baseEntry: FileState | undefined,
+	leafEntry: FileState | undefined,
+): string | undefined {
+	const before = baseEntry?.exists ? baseEntry.mode : undefined;
+	const after = leafEntry?.exists ? leafEntry.mode : undefined;
+	if (before === undefined || after === undefined || before === after) {
+		return undefined;
+	}
+	return `Mode changed: ${before.toString(8)} -> ${after.toString(8)}`;
+}
+
 export async function formatDiffText(
 	cache: Cache,
 	baseEntry: FileState | undefined,
 	leafEntry: FileState | undefined,
+	contextLines = DEFAULT_DIFF_CONTEXT_LINES,
 ): Promise<string> {
 	const baseExists = baseEntry?.exists ?? false;
 	const leafExists = leafEntry?.exists ?? false;
@@ -144,9 +323,24 @@ export async function formatDiffText(
 		return "No changes recorded.";
 	}
 
+	if (baseEntry?.kind === "directory" || leafEntry?.kind === "directory") {
+		if (!baseExists) return "Directory created.";
+		if (!leafExists) return "Directory removed.";
+		return describeModeChange(baseEntry, leafEntry) ?? "No changes recorded.";
+	}
+
+	if (baseEntry?.kind === "symlink" || leafEntry?.kind === "symlink") {
+		return [
+			`- ${describeEntry(baseEntry)}`,
+			`+ ${describeEntry(leafEntry)}`,
+		].join("\n");
+	}
+
+	const modeNote = describeModeChange(baseEntry, leafEntry);
 	if (leafEntry?.binary || baseEntry?.binary) {
 		if (!baseExists && leafExists) return "Binary file added.";
 		if (baseExists && !leafExists) return "Binary file deleted.";
+		if (baseEntry?.hash === leafEntry?.hash && modeNote) return modeNote;
 		return "Binary file modified.";
 	}
 
@@ -159,54 +353,146 @@ export async function formatDiffText(
 			? (await cache.readBlob(leafEntry.hash)).toString("utf-8")
 			: "";
 
-	const { diff } = generateDiffString(baseText, leafText);
+	const { diff } = generateDiffString(baseText, leafText, contextLines);
+	if (modeNote) {
+		return diff ? `${modeNote}\n\n${diff}` : modeNote;
+	}
 	return diff || "No changes recorded.";
 }
 
-function collectUiDiffItems(
+export async function formatRenameText(
+	cache: Cache,
+	oldPath: string,
+	oldEntry: FileState | undefined,
+	newPath: string,
+	newEntry: FileState | undefined,
+	contextLines = DEFAULT_DIFF_CONTEXT_LINES,
+): Promise<string> {
+	const header = `Renamed from ${oldPath} to ${newPath}.`;
+	if (!oldEntry || !newEntry || isSameFileState(newEntry, oldEntry)) {
+		return header;
+	}
+	const delta = await formatDiffText(cache, oldEntry, newEntry, contextLines);
+	return `${header}\n\n${delta}`;
+}
+
+// Diff for a single path in a leaf; either side of a detected rename renders
+// as the rename.
+export async function formatLeafDiff(
+	cache: Cache,
 	baseManifest: Manifest,
-	leafId: string,
 	leafManifest: Manifest,
-): UiDiffItem[] {
-	const items: UiDiffItem[] = [];
-	for (const [filePath, leafEntry] of leafManifest) {
-		const baseEntry = baseManifest.get(filePath);
-		const change = describeChange(baseEntry, leafEntry);
+	relativePath: string,
+	contextLines = DEFAULT_DIFF_CONTEXT_LINES,
+): Promise<string> {
+	const changes = await collectLeafChanges(cache, baseManifest, leafManifest);
+	const rename = changes.find(
+		(item) =>
+			item.change === "R" &&
+			(item.path === relativePath || item.oldPath === relativePath),
+	);
+	if (rename?.oldPath) {
+		return formatRenameText(
+			cache,
+			rename.oldPath,
+			baseManifest.get(rename.oldPath),
+			rename.path,
+			leafManifest.get(rename.path),
+			contextLines,
+		);
+	}
+	return formatDiffText(
+		cache,
+		baseManifest.get(relativePath),
+		leafManifest.get(relativePath),
+		contextLines,
+	);
+}
+
+const RESTORE_ACTIONS: Record<"A" | "M" | "D", RestoreAction> = {
+	A: "add",
+	M: "overwrite",
+	D: "delete",
+};
+
+// What restoring `target` does to files currently in the `current` state.
+export async function previewRestore(
+	cache: Cache,
+	current: Manifest,
+	target: Manifest,
+	options: { includeDiff?: boolean; contextLines?: number } = {},
+): Promise<RestorePreviewItem[]> {
+	const items: RestorePreviewItem[] = [];
+	for (const [filePath, targetEntry] of target) {
+		const currentEntry = current.get(filePath);
+		const change = describeChange(currentEntry, targetEntry);
 		if (!change) continue;
-		items.push({
-			leafId,
+		const directory =
+			targetEntry.kind === "directory" || currentEntry?.kind === "directory";
+		const item: RestorePreviewItem = {
 			path: filePath,
-			change,
-			label: `[${leafId}] ${change} ${filePath}`,
-		});
+			action: RESTORE_ACTIONS[change],
+			directory,
+		};
+		if (options.includeDiff && !directory) {
+			item.diff = await formatDiffText(
+				cache,
+				currentEntry,
+				targetEntry,
+				options.contextLines,
+			);
+		}
+		items.push(item);
+	}
+	return items.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+export function formatRestorePreview(
+	title: string,
+	items: RestorePreviewItem[],
+	includeDiff = false,
+): string {
+	if (items.length === 0) {
+		return `${title}: no file changes.`;
+	}
+	const suffix = items.length === 1 ? "path" : "paths";
+	const lines = [`${title} changes ${items.length} ${suffix}:`];
+	for (const item of items) {
+		const label = item.directory ? `${item.path}/` : item.path;
+		lines.push(`  ${item.action.padEnd(9)} ${label}`);
+		if (includeDiff && item.diff) {
+			lines.push("", item.diff, "");
+		}
 	}
-	return items;
+	return lines.join("\n").trimEnd();
 }
 
+// Leaves whose delta chain is broken are left out and returned as `broken`.
 export async function listDiffItems(
 	tracker: SnapshotTracker,
 	cache: Cache,
-): Promise<DiffItem[]> {
+): Promise<{ items: DiffItem[]; broken: string[] }> {
 	const baseManifest = tracker.getBaseManifest();
-	const leafIds = await cache.listLeafIds();
+	const { leaves, broken } = await cache.readLeaves();
 	const items: DiffItem[] = [];
 
-	for (const leafId of leafIds) {
-		const leafManifest = await cache.readLeaf(leafId);
-		if (!leafManifest) continue;
-		for (const [filePath, leafEntry] of leafManifest) {
-			const baseEntry = baseManifest.get(filePath);
-			const change = describeChange(baseEntry, leafEntry);
-			if (!change) continue;
+	for (const [leafId, leafManifest] of leaves) {
+		const changes = await collectLeafChanges(cache, baseManifest, leafManifest);
+		for (const { path, oldPath, change } of changes) {
 			items.push({
 				leafId,
-				path: filePath,
+				path,
+				...(oldPath ? { oldPath } : {}),
 				change: toChangeType(change),
 			});
 		}
 	}
 
-	return items;
+	return { items, broken };
+}
+
+export function formatBrokenLeaves(broken: string[]): string {
+	return `Skipped leaves with a broken delta chain (run /undo-redo-fsck): ${broken.join(", ")}`;
 }
 
 export async function showDiffStack(
@@ -214,6 +500,7 @@ export async function showDiffStack(
 	ctx: ExtensionCommandContext,
 	tracker: SnapshotTracker,
 	cache: Cache,
+	contextLines = DEFAULT_DIFF_CONTEXT_LINES,
 ): Promise<void> {
 	if (!ctx.hasUI) {
 		ctx.ui.notify("No UI available", "error");
@@ -221,13 +508,24 @@ export async function showDiffStack(
 	}
 
 	const baseManifest = tracker.getBaseManifest();
-	const leafIds = await cache.listLeafIds();
+	const { leaves, broken } = await cache.readLeaves();
 	const items: UiDiffItem[] = [];
+	if (broken.length > 0) {
+		ctx.ui.notify(formatBrokenLeaves(broken), "warning");
+	}
 
-	for (const leafId of leafIds) {
-		const leafManifest = await cache.readLeaf(leafId);
-		if (!leafManifest) continue;
-		items.push(...collectUiDiffItems(baseManifest, leafId, leafManifest));
+	for (const [leafId, leafManifest] of leaves) {
+		const changes = await collectLeafChanges(cache, baseManifest, leafManifest);
+		for (const change of changes) {
+			const target = change.oldPath
+				? `${change.oldPath} -> ${change.path}`
+				: change.path;
+			items.push({
+				...change,
+				leafId,
+				label: `[${leafId}] ${change.change} ${target}`,
+			});
+		}
 	}
 
 	if (items.length === 0) {
@@ -247,9 +545,21 @@ export async function showDiffStack(
 		return;
 	}
 
-	const baseEntry = baseManifest.get(item.path);
-	const leafEntry = leafManifest.get(item.path);
-	const diffText = await formatDiffText(cache, baseEntry, leafEntry);
+	const diffText = item.oldPath
+		? await formatRenameText(
+				cache,
+				item.oldPath,
+				baseManifest.get(item.oldPath),
+				item.path,
+				leafManifest.get(item.path),
+				contextLines,
+			)
+		: await formatDiffText(
+				cache,
+				baseManifest.get(item.path),
+				leafManifest.get(item.path),
+				contextLines,
+			);
 	const header = `Diff for ${item.path} (leaf ${item.leafId})`;
 	pi.sendMessage(
 		{
@@ -0,0 +1,90 @@
+import { randomBytes } from "node:crypto";
+import { createWriteStream, existsSync } from "node:fs";
+import { open, readdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable, type Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+const TEMP_SUFFIX = ".tmp";
+const STALE_TEMP_MS = 60 * 60 * 1000;
+
+function tempPathFor(filePath: string): string {
+	const nonce = randomBytes(4).toString("hex");
+	return `${filePath}.${process.pid}.${nonce}${TEMP_SUFFIX}`;
+}
+
+export function isTempFile(name: string): boolean {
+	return name.endsWith(TEMP_SUFFIX);
+}
+
+export async function writeFileAtomic(
+	filePath: string,
+	data: string | Buffer,
+	options: { previousPath?: string } = {},
+): Promise<void> {
+	const tempPath = tempPathFor(filePath);
+	const handle = await open(tempPath, "w");
+	try {
+		await handle.writeFile(data);
+		await handle.sync();
+	} catch (error) {
+		await handle.close();
+		await rm(tempPath, { force: true });
+		throw error;
+	}
+	await handle.close();
+
+	try {
+		if (options.previousPath && existsSync(filePath)) {
+			await rename(filePath, options.previousPath);
+		}
+		await rename(tempPath, filePath);
+	} catch (error) {
+		await rm(tempPath, { force: true });
+		throw error;
+	}
+}
+
+// Like writeFileAtomic, for data produced piece by piece and passed through
+// the given transforms on the way to disk.
+export async function writeStreamAtomic(
+	filePath: string,
+	source: AsyncIterable<string | Buffer>,
+	...transforms: Transform[]
+): Promise<void> {
+	const tempPath = tempPathFor(filePath);
+	try {
+		await pipeline([
+			Readable.from(source),
+			...transforms,
+			createWriteStream(tempPath),
+		]);
+		const handle = await open(tempPath, "r+");
+		try {
+			await handle.sync();
+		} finally {
+			await handle.close();
+		}
+		await rename(tempPath, filePath);
+	} catch (error) {
+		await rm(tempPath, { force: true });
+		throw error;
+	}
+}
+
+export async function removeStaleTempFiles(dirPath: string): Promise<void> {
+	if (!existsSync(dirPath)) return;
+	const cutoff = Date.now() - STALE_TEMP_MS;
+	const entries = await readdir(dirPath, { withFileTypes: true });
+	for (const entry of entries) {
+		if (!entry.isFile() || !isTempFile(entry.name)) continue;
+		const entryPath = path.join(dirPath, entry.name);
+		try {
+			if ((await stat(entryPath)).mtimeMs < cutoff) {
+				await rm(entryPath, { force: true });
+			}
+		} catch {
+			// Another process finished or removed it first.
+		}
+	}
+}
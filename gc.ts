@@ -0,0 +1,124 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import {
+	type Cache,
+	createCache,
+	getSharedBlobsDir,
+	listBlobDirectory,
+	removeBlobFile,
+} from "./cache.js";
+import type { GarbageCollectionResult, Manifest } from "./types.js";
+
+export const DEFAULT_GC_THRESHOLD_BYTES = 256 * 1024 * 1024;
+export const SHARED_BLOB_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1024,
+	mb: 1024 * 1024,
+	gb: 1024 * 1024 * 1024,
+};
+
+export function parseSize(value: string): number | undefined {
+	const match = value
+		.trim()
+		.toLowerCase()
+		.match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+	if (!match) return undefined;
+	const amount = Number.parseFloat(match[1]);
+	const unit = SIZE_UNITS[match[2] ?? "b"];
+	return Math.floor(amount * unit);
+}
+
+function markManifest(manifest: Manifest, marked: Set<string>): void {
+	for (const entry of manifest.values()) {
+		if (entry.exists && entry.hash) {
+			marked.add(entry.hash);
+		}
+	}
+}
+
+export async function collectReferencedHashes(
+	cache: Cache,
+	extraRoots: Manifest[] = [],
+): Promise<Set<string>> {
+	const marked = new Set<string>();
+	for (const manifest of await cache.readStoredManifests()) {
+		markManifest(manifest, marked);
+	}
+	for (const manifest of extraRoots) {
+		markManifest(manifest, marked);
+	}
+	return marked;
+}
+
+async function markAllSessions(
+	baseDir: string,
+	marked: Set<string>,
+): Promise<void> {
+	if (!existsSync(baseDir)) return;
+	const entries = await readdir(baseDir, { withFileTypes: true });
+	for (const entry of entries) {
+		if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+		const sessionCache = createCache(entry.name, { baseDir });
+		for (const hash of await collectReferencedHashes(sessionCache)) {
+			marked.add(hash);
+		}
+	}
+}
+
+async function sweepBlobs(
+	blobsDir: string,
+	marked: Set<string>,
+	minAgeMs: number,
+): Promise<GarbageCollectionResult> {
+	const blobs = await listBlobDirectory(blobsDir);
+	const cutoff = Date.now() - minAgeMs;
+	let removedBlobs = 0;
+	let freedBytes = 0;
+	let remainingBytes = 0;
+
+	for (const blob of blobs) {
+		if (marked.has(blob.hash) || blob.mtimeMs > cutoff) {
+			remainingBytes += blob.size;
+			continue;
+		}
+		freedBytes += await removeBlobFile(blobsDir, blob.hash);
+		removedBlobs += 1;
+	}
+
+	return {
+		scannedBlobs: blobs.length,
+		removedBlobs,
+		freedBytes,
+		remainingBytes,
+	};
+}
+
+export async function collectSharedGarbage(
+	baseDir: string,
+	extraRoots: Manifest[] = [],
+	options: { minAgeMs?: number } = {},
+): Promise<GarbageCollectionResult> {
+	const marked = new Set<string>();
+	for (const manifest of extraRoots) {
+		markManifest(manifest, marked);
+	}
+	await markAllSessions(baseDir, marked);
+	return sweepBlobs(
+		getSharedBlobsDir(baseDir),
+		marked,
+		options.minAgeMs ?? SHARED_BLOB_GRACE_MS,
+	);
+}
+
+export async function collectGarbage(
+	cache: Cache,
+	extraRoots: Manifest[] = [],
+): Promise<GarbageCollectionResult> {
+	if (cache.sharedBlobs) {
+		return collectSharedGarbage(cache.baseDir, extraRoots);
+	}
+	const marked = await collectReferencedHashes(cache, extraRoots);
+	return sweepBlobs(cache.blobsDir, marked, 0);
+}
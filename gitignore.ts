@@ -0,0 +1,444 @@
+import { execFile } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { lstat, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+	fromPosix,
+	getParentPaths,
+	resolveUserPath,
+	toPosix,
+} from "./paths.js";
+
+const execFileAsync = promisify(execFile);
+
+const IGNORE_FILENAME = ".gitignore";
+export const UNDO_REDO_IGNORE_FILENAME = ".undoredoignore";
+const IGNORE_SETTING_SOURCE = "ignore setting";
+
+export interface IgnoreRuleSource {
+	pattern: string;
+	// The ignore file the rule came from, or the `ignore` setting.
+	source: string;
+	line: number;
+}
+
+export interface IgnoreExplanation {
+	ignored: boolean;
+	// The rule that decided, if any matched.
+	rule?: IgnoreRuleSource;
+	// Set when the decision was inherited from this parent directory.
+	directory?: string;
+}
+
+export interface IgnoreMatcher {
+	// Loads the ignore files the entries of a directory are judged by, so
+	// scans never block on reading them.
+	prepare(relativeDir: string): Promise<void>;
+	ignores(relativePath: string, isDir: boolean): boolean;
+	explain(relativePath: string, isDir: boolean): IgnoreExplanation;
+}
+
+interface IgnoreRule extends IgnoreRuleSource {
+	regex: RegExp;
+	negative: boolean;
+	directoryOnly: boolean;
+	// Patterns without a slash match the last path segment at any depth.
+	basename: boolean;
+	// Per-segment matchers of an anchored pattern; null stands for `**`.
+	segments?: (RegExp | null)[];
+}
+
+interface Repository {
+	root: string;
+	// Shared between worktrees; holds info/exclude.
+	commonDir: string;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
+
+function compileClass(
+	glob: string,
+	start: number,
+): { source: string; end: number } | undefined {
+	let index = start + 1;
+	let negated = false;
+	if (glob[index] === "!" || glob[index] === "^") {
+		negated = true;
+		index += 1;
+	}
+	let body = "";
+	const bodyStart = index;
+	while (index < glob.length && (glob[index] !== "]" || index === bodyStart)) {
+		let char = glob[index];
+		if (char === "\\" && index + 1 < glob.length) {
+			index += 1;
+			char = glob[index];
+			body += escapeRegExp(char);
+		} else if (char === "-" && index > bodyStart && glob[index + 1] !== "]") {
+			body += "-";
+		} else {
+			body += escapeRegExp(char);
+		}
+		index += 1;
+	}
+	if (index >= glob.length) return undefined;
+	const source = negated ? `[^/${body}]` : `(?!/)[${body}]`;
+	return { source, end: index + 1 };
+}
+
+// Follows git's wildmatch: `*` and `?` stop at slashes, and `**` only spans
+// directories as a whole segment.
+function compileGlob(glob: string): string {
+	let source = "";
+	let index = 0;
+	while (index < glob.length) {
+		const char = glob[index];
+		if (char === "*") {
+			let end = index;
+			while (glob[end] === "*") end += 1;
+			const wholeSegment =
+				end - index > 1 &&
+				(index === 0 || glob[index - 1] === "/") &&
+				(end === glob.length || glob[end] === "/");
+			if (!wholeSegment) {
+				source += "[^/]*";
+			} else if (end === glob.length) {
+				source += ".*";
+			} else {
+				source += "(?:.*/)?";
+				end += 1;
+			}
+			index = end;
+			continue;
+		}
+		if (char === "?") {
+			source += "[^/]";
+			index += 1;
+			continue;
+		}
+		if (char === "[") {
+			const compiled = compileClass(glob, index);
+			if (compiled) {
+				source += compiled.source;
+				index = compiled.end;
+				continue;
+			}
+		}
+		if (char === "\\" && index + 1 < glob.length) {
+			index += 1;
+		}
+		source += escapeRegExp(glob[index]);
+		index += 1;
+	}
+	return source;
+}
+
+function parseRule(
+	line: string,
+	source: string,
+	lineNumber: number,
+): IgnoreRule | undefined {
+	let pattern = line.replace(/\r$/, "").replace(/(?<!\\) +$/, "");
+	if (!pattern || pattern.startsWith("#")) return undefined;
+	const original = pattern;
+	const negative = pattern.startsWith("!");
+	if (negative) pattern = pattern.slice(1);
+	const directoryOnly = pattern.endsWith("/");
+	if (directoryOnly) pattern = pattern.replace(/\/+$/, "");
+	if (!pattern) return undefined;
+	const basename = !pattern.includes("/");
+	pattern = pattern.replace(/^\//, "");
+	return {
+		pattern: original,
+		source,
+		line: lineNumber,
+		regex: new RegExp(`^${compileGlob(pattern)}$`),
+		negative,
+		directoryOnly,
+		basename,
+		segments: basename
+			? undefined
+			: pattern
+					.split("/")
+					.map((segment) =>
+						segment === "**" ? null : new RegExp(`^${compileGlob(segment)}$`),
+					),
+	};
+}
+
+function parseIgnoreRules(contents: string, source: string): IgnoreRule[] {
+	return contents
+		.split("\n")
+		.map((line, index) => parseRule(line, source, index + 1))
+		.filter((rule): rule is IgnoreRule => rule !== undefined);
+}
+
+// The last matching rule wins.
+function matchRules(
+	rules: IgnoreRule[],
+	relativePath: string,
+	isDir: boolean,
+): IgnoreRule | undefined {
+	const name = relativePath.slice(relativePath.lastIndexOf("/") + 1);
+	for (let index = rules.length - 1; index >= 0; index -= 1) {
+		const rule = rules[index];
+		if (rule.directoryOnly && !isDir) continue;
+		if (rule.regex.test(rule.basename ? name : relativePath)) return rule;
+	}
+	return undefined;
+}
+
+function toExplanation(rule: IgnoreRule | undefined): IgnoreExplanation {
+	if (!rule) return { ignored: false };
+	const { pattern, source, line } = rule;
+	return { ignored: !rule.negative, rule: { pattern, source, line } };
+}
+
+// Whether an anchored pattern can match something below the directory.
+function reachesBelow(rule: IgnoreRule, directory: string): boolean {
+	if (!rule.segments) return false;
+	const names = directory.split("/");
+	for (let index = 0; index < names.length; index += 1) {
+		const segment = rule.segments[index];
+		if (segment === null) return true;
+		if (index >= rule.segments.length - 1 || !segment.test(names[index])) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function getParentDirectory(repoPath: string): string {
+	const index = repoPath.lastIndexOf("/");
+	return index < 0 ? "" : repoPath.slice(0, index);
+}
+
+// Applies ignore rules the way git does: a `.gitignore` governs the paths
+// below its directory and overrides the ones above it, `.git/info/exclude`
+// and `core.excludesFile` come next, and the configured patterns last. Once a
+// directory is ignored nothing inside it can be re-included.
+//
+// `.undoredoignore` sits above all of them. Its `!pattern` rules force-track
+// paths git ignores, and a directory on the way to an anchored `!pattern` is
+// entered without re-including the rest of it. A basename `!pattern` could
+// match in any directory, so it does not open ignored ones: it only applies
+// where git has not ignored a parent.
+export class GitIgnoreMatcher implements IgnoreMatcher {
+	private readonly directoryRules = new Map<string, IgnoreRule[]>();
+	private readonly pendingRules = new Map<string, Promise<void>>();
+	private readonly directoryDecisions = new Map<string, IgnoreExplanation>();
+
+	constructor(
+		private readonly repoRoot: string,
+		// The matched root relative to the repository root, "" when they match.
+		private readonly prefix: string,
+		private readonly excludeRules: IgnoreRule[][],
+		private readonly configuredRules: IgnoreRule[],
+		private readonly overrideRules: IgnoreRule[] = [],
+	) {}
+
+	async prepare(relativeDir: string): Promise<void> {
+		const repoDir = [this.prefix, relativeDir].filter(Boolean).join("/");
+		const directories = repoDir
+			? ["", ...getParentPaths(repoDir), repoDir]
+			: [""];
+		await Promise.all(
+			directories.map((directory) => this.loadRules(directory)),
+		);
+	}
+
+	ignores(relativePath: string, isDir: boolean): boolean {
+		return this.explain(relativePath, isDir).ignored;
+	}
+
+	explain(relativePath: string, isDir: boolean): IgnoreExplanation {
+		if (!relativePath) return { ignored: false };
+		const parents = getParentPaths(relativePath);
+		// Git rules only apply below the deepest directory the override file
+		// re-includes.
+		let firstGitParent = 0;
+		for (const [index, parent] of parents.entries()) {
+			const rule = matchRules(this.overrideRules, parent, true);
+			if (!rule) continue;
+			if (!rule.negative) {
+				return { ...toExplanation(rule), directory: parent };
+			}
+			firstGitParent = index + 1;
+		}
+		const override = matchRules(this.overrideRules, relativePath, isDir);
+		const reopens = override && !(override.negative && override.basename);
+		if (override && reopens) return toExplanation(override);
+		if (isDir) {
+			const forced = this.overrideRules.find(
+				(rule) => rule.negative && reachesBelow(rule, relativePath),
+			);
+			if (forced) return toExplanation(forced);
+		}
+
+		for (const parent of parents.slice(firstGitParent)) {
+			const decision = this.decideDirectory(parent);
+			if (decision.ignored) return { ...decision, directory: parent };
+		}
+		if (override) return toExplanation(override);
+		return isDir
+			? this.decideDirectory(relativePath)
+			: this.decide(relativePath, false);
+	}
+
+	private decideDirectory(relativePath: string): IgnoreExplanation {
+		let decision = this.directoryDecisions.get(relativePath);
+		if (!decision) {
+			decision = this.decide(relativePath, true);
+			this.directoryDecisions.set(relativePath, decision);
+		}
+		return decision;
+	}
+
+	// Git's verdict for the path itself, ignoring its parents.
+	private decide(relativePath: string, isDir: boolean): IgnoreExplanation {
+		const repoPath = this.prefix
+			? `${this.prefix}/${relativePath}`
+			: relativePath;
+		let directory = repoPath;
+		do {
+			directory = getParentDirectory(directory);
+			const scoped = directory
+				? repoPath.slice(directory.length + 1)
+				: repoPath;
+			const rule = matchRules(this.readRules(directory), scoped, isDir);
+			if (rule) return toExplanation(rule);
+		} while (directory);
+		for (const rules of this.excludeRules) {
+			const rule = matchRules(rules, repoPath, isDir);
+			if (rule) return toExplanation(rule);
+		}
+		return toExplanation(matchRules(this.configuredRules, relativePath, isDir));
+	}
+
+	private getIgnoreFilePath(directory: string): string {
+		return path.join(this.repoRoot, fromPosix(directory), IGNORE_FILENAME);
+	}
+
+	private loadRules(directory: string): Promise<void> {
+		if (this.directoryRules.has(directory)) return Promise.resolve();
+		let pending = this.pendingRules.get(directory);
+		if (!pending) {
+			const filePath = this.getIgnoreFilePath(directory);
+			pending = readOptionalFile(filePath)
+				.then((contents) => {
+					this.directoryRules.set(
+						directory,
+						parseIgnoreRules(contents, filePath),
+					);
+				})
+				.finally(() => this.pendingRules.delete(directory));
+			this.pendingRules.set(directory, pending);
+		}
+		return pending;
+	}
+
+	// Scans prepare their directories first; reading here only serves
+	// one-off lookups.
+	private readRules(directory: string): IgnoreRule[] {
+		let rules = this.directoryRules.get(directory);
+		if (!rules) {
+			const filePath = this.getIgnoreFilePath(directory);
+			try {
+				rules = parseIgnoreRules(readFileSync(filePath, "utf-8"), filePath);
+			} catch (error) {
+				const err = error as NodeJS.ErrnoException;
+				if (err.code !== "ENOENT" && err.code !== "ENOTDIR") throw error;
+				rules = [];
+			}
+			this.directoryRules.set(directory, rules);
+		}
+		return rules;
+	}
+}
+
+async function readOptionalFile(filePath: string): Promise<string> {
+	try {
+		return await readFile(filePath, "utf-8");
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT" || err.code === "ENOTDIR") return "";
+		throw error;
+	}
+}
+
+// `.git` is a directory in a normal checkout and a `gitdir:` file in linked
+// worktrees and submodules.
+async function findRepository(
+	startPath: string,
+): Promise<Repository | undefined> {
+	let current = path.resolve(startPath);
+	while (true) {
+		const dotGit = path.join(current, ".git");
+		const stats = await lstat(dotGit).catch(() => undefined);
+		if (stats?.isDirectory()) {
+			return { root: current, commonDir: dotGit };
+		}
+		if (stats?.isFile()) {
+			const match = /^gitdir:\s*(.+)$/m.exec(await readOptionalFile(dotGit));
+			if (match) {
+				const gitDir = path.resolve(current, match[1].trim());
+				const common = (
+					await readOptionalFile(path.join(gitDir, "commondir"))
+				).trim();
+				return {
+					root: current,
+					commonDir: common ? path.resolve(gitDir, common) : gitDir,
+				};
+			}
+		}
+		const parent = path.dirname(current);
+		if (parent === current) return undefined;
+		current = parent;
+	}
+}
+
+// Falls back to git's default location when the setting is unset or git is
+// not installed.
+async function getExcludesFilePath(cwd: string): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync(
+			"git",
+			["config", "--path", "--get", "core.excludesFile"],
+			{ cwd },
+		);
+		if (stdout.trim()) return resolveUserPath(stdout.trim(), cwd);
+	} catch {
+		// Unset or unavailable.
+	}
+	const configHome =
+		process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+	return path.join(configHome, "git", "ignore");
+}
+
+export async function loadIgnoreMatcher(
+	root: string,
+	patterns: string[],
+): Promise<GitIgnoreMatcher> {
+	const repository = await findRepository(root);
+	const readRulesFile = async (filePath: string) =>
+		parseIgnoreRules(await readOptionalFile(filePath), filePath);
+	const excludeRules: IgnoreRule[][] = [];
+	if (repository) {
+		excludeRules.push(
+			await readRulesFile(path.join(repository.commonDir, "info", "exclude")),
+			await readRulesFile(await getExcludesFilePath(root)),
+		);
+	}
+	const repoRoot = repository?.root ?? root;
+	return new GitIgnoreMatcher(
+		repoRoot,
+		toPosix(path.relative(repoRoot, root)),
+		excludeRules,
+		parseIgnoreRules(patterns.join("\n"), IGNORE_SETTING_SOURCE),
+		await readRulesFile(path.join(root, UNDO_REDO_IGNORE_FILENAME)),
+	);
+}
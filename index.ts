@@ -1,4 +1,4 @@
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { lstat, mkdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import { StringEnum } from "@mariozechner/pi-ai";
 import {
@@ -9,8 +9,6 @@ import {
 	createLsTool,
 	createReadTool,
 	createWriteTool,
-	DEFAULT_MAX_BYTES,
-	DEFAULT_MAX_LINES,
 	type ExtensionAPI,
 	type ExtensionCommandContext,
 	type ExtensionContext,
@@ -18,6 +16,7 @@ import {
 	formatSize,
 	type KeybindingsManager,
 	type SessionForkEvent,
+	type SessionShutdownEvent,
 	type SessionStartEvent,
 	type SessionSwitchEvent,
 	type SessionTreeEvent,
@@ -27,45 +26,146 @@ import {
 } from "@mariozechner/pi-coding-agent";
 import type { EditorTheme, TUI } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { createCache } from "./cache.js";
-import { formatDiffText, listDiffItems, showDiffStack } from "./diff-stack.js";
+import { exportBundle, getDefaultBundleName, importBundle } from "./bundle.js";
+import { checkCacheIntegrity, createCache } from "./cache.js";
+import { BLOB_CODECS, isBlobCodec } from "./compression.js";
+import {
+	formatBrokenLeaves,
+	formatLeafDiff,
+	formatRestorePreview,
+	listDiffItems,
+	previewRestore,
+	showDiffStack,
+} from "./diff-stack.js";
 import { UndoRedoEditor } from "./editor.js";
-import { resolveUserPath } from "./paths.js";
+import { collectGarbage, DEFAULT_GC_THRESHOLD_BYTES, parseSize } from "./gc.js";
+import type { IgnoreExplanation } from "./gitignore.js";
+import {
+	acquireLock,
+	describeLockOwner,
+	getLockPath,
+	isLockMode,
+	LOCK_MODES,
+	type LockAttempt,
+	type LockHandle,
+	type LockMode,
+	tryAcquireLock,
+} from "./lock.js";
+import { fromPosix, isWithinRoot, resolveUserPath } from "./paths.js";
+import { recoverRestoreJournal } from "./restore.js";
+import {
+	DEFAULT_RETENTION_POLICY,
+	isEmptyPolicy,
+	listSessions,
+	type PruneResult,
+	parseRetentionPolicy,
+	pruneSessions,
+	type RetentionPolicy,
+	type SessionRecord,
+	touchSession,
+} from "./retention.js";
 import { SandboxState } from "./sandbox.js";
+import {
+	loadSettings,
+	resolveSettings,
+	type UndoRedoSettings,
+} from "./settings.js";
 import type { BufferedToolSet } from "./tools.js";
-import { createBufferedToolSet } from "./tools.js";
+import { createBufferedToolSet, createPassthroughToolSet } from "./tools.js";
 import { SnapshotTracker } from "./tracker.js";
-import type { SandboxProgress, TrackedStats } from "./types.js";
+import type {
+	BlobCodec,
+	Checkpoint,
+	CompressionStats,
+	ConflictResolution,
+	GarbageCollectionResult,
+	RestoreConflict,
+	SandboxProgress,
+	TrackedStats,
+} from "./types.js";
 
 const STATUS_KEY = "undo-redo";
 const TOOL_OUTPUT_DIR = "diffs";
+const GC_THRESHOLD_FLAG = "undo-redo-gc-threshold";
+const RETENTION_FLAG = "undo-redo-retention";
+const SHARED_BLOBS_FLAG = "undo-redo-shared-blobs";
+const VERIFY_HASHES_FLAG = "undo-redo-verify-hashes";
+const COMPRESSION_FLAG = "undo-redo-compression";
+const LOCK_FLAG = "undo-redo-lock";
+const DEFAULT_COMPRESSION: BlobCodec = "gzip";
+const DEFAULT_LOCK_MODE: LockMode = "read-only";
+const LOCK_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+const DECIDE_PER_FILE = "Decide per file";
+const CONFLICT_CHOICES: Record<string, ConflictResolution> = {
+	"Overwrite with the snapshot": "overwrite",
+	"Skip (keep my version)": "skip",
+	"Keep both (save mine as .orig)": "keep-both",
+};
+const BULK_CONFLICT_CHOICES: Record<string, ConflictResolution> = {
+	"Overwrite all with the snapshot": "overwrite",
+	"Skip all (keep my versions)": "skip",
+	"Keep both for all (save mine as .orig)": "keep-both",
+};
+const PREVIEW_MODES = ["files", "diff"] as const;
+type PreviewMode = (typeof PREVIEW_MODES)[number];
+const READ_ONLY_NOTICE =
+	"Undo/redo is read-only: another pi process owns this session's cache.";
 
 const undoRedoToolSchema = Type.Object({
-	action: StringEnum(["undo", "redo", "list_diffs", "diff"] as const),
+	action: StringEnum([
+		"undo",
+		"redo",
+		"list_diffs",
+		"diff",
+		"list_checkpoints",
+		"rollback",
+		"revert",
+	] as const),
 	leafId: Type.Optional(
 		Type.String({
-			description: "Leaf id to target (defaults to the current leaf for diff).",
+			description:
+				"Leaf id to target (defaults to the current leaf for diff and to the base snapshot for revert).",
 		}),
 	),
 	path: Type.Optional(
 		Type.String({
 			description:
-				"File path for diff (relative to the project root or absolute).",
+				"File path for diff, or file path or glob for revert (relative to the project root or absolute).",
+		}),
+	),
+	preview: Type.Optional(
+		StringEnum(PREVIEW_MODES, {
+			description:
+				"For undo/redo: only list the files that would change (files) or include their diffs (diff), without applying anything.",
+		}),
+	),
+	toolCallId: Type.Optional(
+		Type.String({
+			description:
+				"Tool call id for rollback: files return to their state just before that call.",
 		}),
 	),
 });
 
+interface CacheUsage {
+	blobBytes: number;
+	lastGc?: GarbageCollectionResult;
+}
+
 interface SessionState {
 	realRoot: string;
 	sandboxRoot: string;
 	cache: ReturnType<typeof createCache>;
 	tracker: SnapshotTracker;
 	sandboxState: SandboxState;
+	cacheUsage: CacheUsage;
 	ui?: ExtensionUIContext;
 	currentLeafId: string | null;
 	undoStack: string[];
 	redoStack: string[];
 	navigating: boolean;
+	readOnly: boolean;
+	lock?: LockHandle;
 }
 
 interface SessionBranching {
@@ -76,6 +176,9 @@ interface SessionBranching {
 export default function (pi: ExtensionAPI) {
 	let state: SessionState | undefined;
 	let toolSet: BufferedToolSet | undefined;
+	let disabledNotice: string | undefined;
+	let settings: UndoRedoSettings = resolveSettings([]);
+	let settingsSources: string[] = [];
 
 	const toolTemplates = {
 		read: createReadTool(process.cwd()) as ToolDefinition,
@@ -125,20 +228,86 @@ export default function (pi: ExtensionAPI) {
 		pi.registerTool(tool);
 	}
 
+	pi.registerFlag(GC_THRESHOLD_FLAG, {
+		description:
+			"Blob cache size that triggers undo/redo garbage collection (e.g. 256MB, 0 to disable)",
+		type: "string",
+	});
+
+	pi.registerFlag(RETENTION_FLAG, {
+		description:
+			"Undo/redo cache retention policy applied on session start (e.g. age=30d,size=5GB,missing or off)",
+		type: "string",
+	});
+
+	pi.registerFlag(SHARED_BLOBS_FLAG, {
+		description:
+			"Store undo/redo snapshots in a content-addressed blob store shared by all sessions",
+		type: "boolean",
+		default: false,
+	});
+
+	pi.registerFlag(VERIFY_HASHES_FLAG, {
+		description:
+			"Hash small files after bash calls to catch changes that keep size and mtime (e.g. touch -r, cp -p)",
+		type: "boolean",
+		default: false,
+	});
+
+	pi.registerFlag(COMPRESSION_FLAG, {
+		description: `Default snapshot compression for new sessions (${BLOB_CODECS.join(", ")})`,
+		type: "string",
+	});
+
+	pi.registerFlag(LOCK_FLAG, {
+		description: `What to do when another pi process holds this session's undo/redo cache (${LOCK_MODES.join(", ")})`,
+		type: "string",
+	});
+
+	const getLockMode = (): LockMode => {
+		const value = pi.getFlag(LOCK_FLAG);
+		if (typeof value === "string" && isLockMode(value)) return value;
+		return settings.lock ?? DEFAULT_LOCK_MODE;
+	};
+
+	const getDefaultCompression = (): BlobCodec => {
+		const value = pi.getFlag(COMPRESSION_FLAG);
+		if (typeof value === "string" && isBlobCodec(value)) return value;
+		return settings.compression ?? DEFAULT_COMPRESSION;
+	};
+
+	const getGcThreshold = (): number => {
+		const value = pi.getFlag(GC_THRESHOLD_FLAG);
+		const fallback = settings.gcThreshold ?? DEFAULT_GC_THRESHOLD_BYTES;
+		if (typeof value !== "string") return fallback;
+		return parseSize(value) ?? fallback;
+	};
+
+	const formatCacheUsage = (usage: CacheUsage): string => {
+		let text = `Cache: ${formatSize(usage.blobBytes)}`;
+		if (usage.lastGc && usage.lastGc.freedBytes > 0) {
+			text += ` (GC freed ${formatSize(usage.lastGc.freedBytes)})`;
+		}
+		return text;
+	};
+
 	const updateStatus = (
 		stats: TrackedStats,
 		ui: ExtensionUIContext | undefined,
+		usage?: CacheUsage,
 	): void => {
 		if (!ui) return;
-		if (stats.fileCount === 0) {
-			ui.setStatus(STATUS_KEY, undefined);
-			return;
+		const parts: string[] = [];
+		if (stats.fileCount > 0) {
+			const suffix = stats.fileCount === 1 ? "file" : "files";
+			parts.push(
+				`Tracked: ${stats.fileCount} ${suffix} (${formatSize(stats.totalBytes)})`,
+			);
 		}
-		const suffix = stats.fileCount === 1 ? "file" : "files";
-		ui.setStatus(
-			STATUS_KEY,
-			`Tracked: ${stats.fileCount} ${suffix} (${formatSize(stats.totalBytes)})`,
-		);
+		if (usage && usage.blobBytes > 0) {
+			parts.push(formatCacheUsage(usage));
+		}
+		ui.setStatus(STATUS_KEY, parts.length > 0 ? parts.join(" · ") : undefined);
 	};
 
 	const formatProgressMessage = (progress: SandboxProgress): string => {
@@ -157,6 +326,8 @@ export default function (pi: ExtensionAPI) {
 			if (ctx.hasUI) {
 				if (progress.stage === "done") {
 					ctx.ui.setWorkingMessage();
+					// Say once how the sandbox was created.
+					if (progress.strategy) ctx.ui.notify(message, "info");
 				} else {
 					ctx.ui.setWorkingMessage(message);
 				}
@@ -178,7 +349,7 @@ export default function (pi: ExtensionAPI) {
 	};
 
 	const notify = (
-		ctx: ExtensionCommandContext,
+		ctx: ExtensionContext,
 		message: string,
 		level: "info" | "warning" | "error",
 	): void => {
@@ -201,12 +372,28 @@ export default function (pi: ExtensionAPI) {
 		ctx: ExtensionCommandContext,
 	): SessionState | undefined => {
 		if (!state) {
-			notify(ctx, "Undo/redo extension not initialized", "error");
+			notify(
+				ctx,
+				disabledNotice ?? "Undo/redo extension not initialized",
+				"error",
+			);
 			return undefined;
 		}
 		return state;
 	};
 
+	const ensureWritableState = (
+		ctx: ExtensionCommandContext,
+	): SessionState | undefined => {
+		const session = ensureState(ctx);
+		if (!session) return undefined;
+		if (session.readOnly) {
+			notify(ctx, READ_ONLY_NOTICE, "warning");
+			return undefined;
+		}
+		return session;
+	};
+
 	const isToolCallTurn = (message: unknown): boolean => {
 		if (!message || typeof message !== "object") return false;
 		const candidate = message as {
@@ -260,13 +447,277 @@ export default function (pi: ExtensionAPI) {
 		}
 	};
 
+	const popRestorableLeaf = (
+		session: SessionState,
+		stack: string[],
+		onSkip: (leafId: string) => void,
+	): string | undefined => {
+		let targetId = stack.pop();
+		while (targetId && !session.tracker.isRestorable(targetId)) {
+			onSkip(targetId);
+			targetId = stack.pop();
+		}
+		return targetId;
+	};
+
+	const peekRestorableLeaf = (
+		session: SessionState,
+		stack: string[],
+	): string | undefined =>
+		[...stack].reverse().find((leafId) => session.tracker.isRestorable(leafId));
+
+	const parsePreviewMode = (args: string): PreviewMode | undefined => {
+		const tokens = args.trim().split(/\s+/);
+		if (tokens.includes("--preview=diff")) return "diff";
+		if (tokens.includes("--preview")) return "files";
+		return undefined;
+	};
+
+	const describeNavigation = async (
+		session: SessionState,
+		action: "undo" | "redo",
+		targetId: string,
+		mode: PreviewMode,
+	): Promise<{ summary: string; text: string }> => {
+		const title = `${action === "undo" ? "Undo" : "Redo"} to leaf ${targetId}`;
+		const target = await session.tracker.resolveManifest(targetId);
+		if (!target) {
+			const text = `${title}: no buffered snapshot, files will not change.`;
+			return { summary: text, text };
+		}
+		const items = await previewRestore(
+			session.cache,
+			session.tracker.getCurrentManifest(),
+			target,
+			{
+				includeDiff: mode === "diff",
+				contextLines: settings.diffContextLines,
+			},
+		);
+		return {
+			summary: formatRestorePreview(title, items),
+			text: formatRestorePreview(title, items, mode === "diff"),
+		};
+	};
+
+	// Shows what the next undo/redo would change and asks before applying it.
+	const confirmNavigation = async (
+		ctx: ExtensionCommandContext,
+		session: SessionState,
+		action: "undo" | "redo",
+		mode: PreviewMode,
+	): Promise<boolean> => {
+		const targetId = peekRestorableLeaf(
+			session,
+			action === "undo" ? session.undoStack : session.redoStack,
+		);
+		if (!targetId) return true;
+		const { summary, text } = await describeNavigation(
+			session,
+			action,
+			targetId,
+			mode,
+		);
+		pi.sendMessage(
+			{
+				customType: "undo-redo.preview",
+				content: text,
+				display: true,
+				details: { action, targetId },
+			},
+			{ triggerTurn: false },
+		);
+		if (!ctx.hasUI) return false;
+		return ctx.ui.confirm(`Apply ${action}?`, summary);
+	};
+
+	const resolveRestoreConflicts = async (
+		ctx: ExtensionContext,
+		conflicts: RestoreConflict[],
+	): Promise<Map<string, ConflictResolution>> => {
+		const resolutions = new Map<string, ConflictResolution>();
+		if (conflicts.length === 0) return resolutions;
+
+		let shared: ConflictResolution | undefined;
+		if (!ctx.hasUI) {
+			shared = settings.headlessConflicts;
+		} else if (conflicts.length > 1) {
+			const choice = await ctx.ui.select(
+				`${conflicts.length} files changed outside pi since the last snapshot`,
+				[...Object.keys(BULK_CONFLICT_CHOICES), DECIDE_PER_FILE],
+			);
+			if (choice !== DECIDE_PER_FILE) {
+				shared = choice ? BULK_CONFLICT_CHOICES[choice] : "skip";
+			}
+		}
+
+		for (const conflict of conflicts) {
+			if (shared) {
+				resolutions.set(conflict.path, shared);
+				continue;
+			}
+			const choice = await ctx.ui.select(
+				`${conflict.path} changed outside pi since the last snapshot`,
+				Object.keys(CONFLICT_CHOICES),
+			);
+			resolutions.set(
+				conflict.path,
+				choice ? CONFLICT_CHOICES[choice] : "skip",
+			);
+		}
+		return resolutions;
+	};
+
+	const reportResolutions = (
+		ctx: ExtensionContext,
+		resolutions: Map<string, ConflictResolution>,
+	): void => {
+		const byResolution = (resolution: ConflictResolution) =>
+			[...resolutions]
+				.filter(([, choice]) => choice === resolution)
+				.map(([filePath]) => filePath);
+		const skipped = byResolution("skip");
+		const kept = byResolution("keep-both");
+		if (skipped.length > 0) {
+			notify(
+				ctx,
+				`Kept your version of files changed outside pi: ${skipped.join(", ")}`,
+				"warning",
+			);
+		}
+		if (kept.length > 0) {
+			notify(
+				ctx,
+				`Saved your version of files changed outside pi as .orig: ${kept.join(", ")}`,
+				"warning",
+			);
+		}
+	};
+
+	const restoreLeafSafely = async (
+		ctx: ExtensionContext,
+		tracker: SnapshotTracker,
+		leafId: string | null,
+		applyRoots: string[],
+	): Promise<void> => {
+		const resolutions = await resolveRestoreConflicts(
+			ctx,
+			await tracker.findRestoreConflicts(leafId),
+		);
+		await tracker.restoreLeaf(leafId, applyRoots, resolutions);
+		reportResolutions(ctx, resolutions);
+	};
+
+	const rollbackToCheckpoint = async (
+		ctx: ExtensionContext,
+		session: SessionState,
+		toolCallId: string,
+	): Promise<Checkpoint[] | undefined> => {
+		const resolutions = await resolveRestoreConflicts(
+			ctx,
+			await session.tracker.findCheckpointConflicts(toolCallId),
+		);
+		const dropped = await session.tracker.rollbackToCheckpoint(
+			toolCallId,
+			[session.sandboxRoot, session.realRoot],
+			resolutions,
+		);
+		if (!dropped) return undefined;
+		reportResolutions(ctx, resolutions);
+		session.sandboxState.setStats(await session.sandboxState.rescan());
+		await session.tracker.saveLeaf(session.currentLeafId);
+		return dropped;
+	};
+
+	// Reverted files are recorded as a checkpoint, so the revert can be rolled
+	// back like a tool call. Checkpoints only last for one reply, so the state
+	// before the revert is also kept as a leaf of its own.
+	const revertFiles = async (
+		ctx: ExtensionContext,
+		session: SessionState,
+		input: string,
+		leafId: string | null,
+	): Promise<{ paths: string[]; previousLeafId?: string } | undefined> => {
+		const pattern = session.tracker.resolveRelativePath(
+			resolveUserPath(input, session.realRoot),
+		);
+		if (!pattern) {
+			throw new Error("Revert path must be inside the project root.");
+		}
+		const resolutions = await resolveRestoreConflicts(
+			ctx,
+			await session.tracker.findRevertConflicts(pattern, leafId),
+		);
+		const previous = session.tracker.getTrackedManifest();
+		const reverted = await session.tracker.revertPaths(
+			pattern,
+			leafId,
+			[session.sandboxRoot, session.realRoot],
+			resolutions,
+		);
+		if (!reverted) return undefined;
+		reportResolutions(ctx, resolutions);
+		if (reverted.length === 0) return { paths: reverted };
+		session.sandboxState.setStats(await session.sandboxState.rescan());
+		session.tracker.recordCheckpoint(`revert-${Date.now()}`, "revert");
+		const previousLeafId = await session.tracker.saveSnapshotLeaf(
+			"before-revert",
+			previous,
+		);
+		await session.tracker.saveLeaf(session.currentLeafId);
+		return { paths: reverted, previousLeafId };
+	};
+
+	const formatRevert = (
+		input: string,
+		leafId: string | null,
+		{ paths, previousLeafId }: { paths: string[]; previousLeafId?: string },
+	): string => {
+		const source = leafId ? `leaf ${leafId}` : "the base snapshot";
+		if (paths.length === 0) {
+			return `No tracked files matching ${input} differ from ${source}.`;
+		}
+		const suffix = paths.length === 1 ? "file" : "files";
+		const previous = previousLeafId
+			? `\nThe previous state is kept as leaf ${previousLeafId}; bring it back with /undo-redo-restore ${previousLeafId}.`
+			: "";
+		return `Reverted ${paths.length} ${suffix} to ${source}: ${paths.join(", ")}${previous}`;
+	};
+
+	const formatCheckpoint = (checkpoint: Checkpoint): string =>
+		`${checkpoint.toolName} ${checkpoint.paths.join(", ")} (${checkpoint.toolCallId})`;
+
+	const formatRollback = (dropped: Checkpoint[]): string => {
+		const suffix = dropped.length === 1 ? "tool call" : "tool calls";
+		return `Rolled back ${dropped.length} ${suffix}:\n${dropped
+			.map((checkpoint) => `- ${formatCheckpoint(checkpoint)}`)
+			.join("\n")}`;
+	};
+
+	const warnUnrestorable = (ctx: ExtensionContext, leafId: string): void => {
+		notify(
+			ctx,
+			`Skipping leaf ${leafId}: its snapshots are damaged (see /undo-redo-fsck).`,
+			"warning",
+		);
+	};
+
 	pi.registerCommand("undo", {
 		description:
-			"Navigate to the previous conversation leaf and restore buffered files",
-		handler: async (_args: string, ctx: ExtensionCommandContext) => {
-			const session = ensureState(ctx);
+			"Navigate to the previous conversation leaf and restore buffered files: /undo [--preview|--preview=diff]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
 			if (!session) return;
-			const targetId = session.undoStack.pop();
+			const preview = parsePreviewMode(args);
+			if (
+				preview &&
+				!(await confirmNavigation(ctx, session, "undo", preview))
+			) {
+				return;
+			}
+			const targetId = popRestorableLeaf(session, session.undoStack, (leafId) =>
+				warnUnrestorable(ctx, leafId),
+			);
 			if (!targetId) {
 				notify(ctx, "No undo history", "info");
 				return;
@@ -280,11 +731,20 @@ export default function (pi: ExtensionAPI) {
 
 	pi.registerCommand("redo", {
 		description:
-			"Navigate to the next conversation leaf and restore buffered files",
-		handler: async (_args: string, ctx: ExtensionCommandContext) => {
-			const session = ensureState(ctx);
+			"Navigate to the next conversation leaf and restore buffered files: /redo [--preview|--preview=diff]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
 			if (!session) return;
-			const targetId = session.redoStack.pop();
+			const preview = parsePreviewMode(args);
+			if (
+				preview &&
+				!(await confirmNavigation(ctx, session, "redo", preview))
+			) {
+				return;
+			}
+			const targetId = popRestorableLeaf(session, session.redoStack, (leafId) =>
+				warnUnrestorable(ctx, leafId),
+			);
 			if (!targetId) {
 				notify(ctx, "No redo history", "info");
 				return;
@@ -296,12 +756,191 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 
+	pi.registerCommand("revert", {
+		description:
+			"Restore files matching a path or glob from the base snapshot or a leaf: /revert <path> [leafId]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			const [input, leafId] = args.trim().split(/\s+/);
+			if (!input) {
+				notify(ctx, "Usage: /revert <path> [leafId]", "warning");
+				return;
+			}
+			try {
+				await ctx.waitForIdle();
+				const reverted = await revertFiles(ctx, session, input, leafId ?? null);
+				if (!reverted) {
+					notify(ctx, `No buffered snapshot for leaf ${leafId}.`, "warning");
+					return;
+				}
+				notify(ctx, formatRevert(input, leafId ?? null, reverted), "info");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Revert failed: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-rollback", {
+		description:
+			"Roll files back to just before a tool call in the current reply: /undo-redo-rollback [toolCallId]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			const checkpoints = session.tracker.listCheckpoints();
+			if (checkpoints.length === 0) {
+				notify(ctx, "No tool-call checkpoints in the current reply.", "info");
+				return;
+			}
+			let toolCallId = args.trim();
+			if (!toolCallId && ctx.hasUI) {
+				const labels = checkpoints.map(formatCheckpoint);
+				const selection = await ctx.ui.select(
+					"Roll back to just before",
+					labels,
+				);
+				if (!selection) return;
+				toolCallId = checkpoints[labels.indexOf(selection)].toolCallId;
+			}
+			if (!toolCallId) {
+				notify(ctx, "Usage: /undo-redo-rollback <toolCallId>", "warning");
+				return;
+			}
+			try {
+				await ctx.waitForIdle();
+				const dropped = await rollbackToCheckpoint(ctx, session, toolCallId);
+				if (!dropped) {
+					notify(ctx, `No checkpoint for tool call ${toolCallId}.`, "warning");
+					return;
+				}
+				notify(ctx, formatRollback(dropped), "info");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo rollback failed: ${message}`, "error");
+			}
+		},
+	});
+
 	pi.registerCommand("diff-stack", {
 		description: "Show buffered diffs for each conversation leaf",
 		handler: async (_args: string, ctx: ExtensionCommandContext) => {
 			const session = ensureState(ctx);
 			if (!session) return;
-			await showDiffStack(pi, ctx, session.tracker, session.cache);
+			await showDiffStack(
+				pi,
+				ctx,
+				session.tracker,
+				session.cache,
+				settings.diffContextLines,
+			);
+		},
+	});
+
+	const runGarbageCollection = async (
+		session: SessionState,
+	): Promise<GarbageCollectionResult> => {
+		const result = await collectGarbage(
+			session.cache,
+			session.tracker.getLiveManifests(),
+		);
+		session.cacheUsage.blobBytes = result.remainingBytes;
+		session.cacheUsage.lastGc = result;
+		updateStatus(
+			session.tracker.getTrackedStats(),
+			session.ui,
+			session.cacheUsage,
+		);
+		return result;
+	};
+
+	const maybeCollectGarbage = async (session: SessionState): Promise<void> => {
+		const { bytes } = await session.cache.getBlobStats();
+		session.cacheUsage.blobBytes = bytes;
+		const threshold = getGcThreshold();
+		if (threshold > 0 && bytes > threshold) {
+			await runGarbageCollection(session);
+			return;
+		}
+		updateStatus(
+			session.tracker.getTrackedStats(),
+			session.ui,
+			session.cacheUsage,
+		);
+	};
+
+	pi.registerCommand("undo-redo-gc", {
+		description:
+			"Remove cached file snapshots that no base or leaf manifest references",
+		handler: async (_args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			try {
+				await ctx.waitForIdle();
+				const result = await runGarbageCollection(session);
+				const suffix = result.removedBlobs === 1 ? "blob" : "blobs";
+				notify(
+					ctx,
+					`Undo/redo GC removed ${result.removedBlobs} of ${result.scannedBlobs} ${suffix}, freed ${formatSize(result.freedBytes)} (${formatSize(result.remainingBytes)} remaining).`,
+					"info",
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo GC failed: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-fsck", {
+		description:
+			"Verify cached snapshots and mark leaves that can no longer be restored: /undo-redo-fsck [--quarantine]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			const quarantine = args.split(/\s+/).includes("--quarantine");
+			try {
+				await ctx.waitForIdle();
+				const report = await checkCacheIntegrity(session.cache, {
+					quarantine,
+				});
+				session.tracker.setUnrestorableLeaves(report.unrestorableLeaves);
+				const lines = [
+					`Checked ${report.checkedBlobs} blobs.`,
+					`- Corrupt blobs: ${report.corruptBlobs.length}`,
+					`- Missing blobs: ${report.missingBlobs.length}`,
+					`- Orphan blobs: ${report.orphanBlobs.length}${session.cache.sharedBlobs ? " (not checked for the shared store)" : ""}`,
+					`- Unrestorable leaves: ${report.unrestorableLeaves.length}`,
+				];
+				if (report.quarantinedBlobs.length > 0) {
+					lines.push(
+						`Moved ${report.quarantinedBlobs.length} corrupt blobs to ${session.cache.quarantineDir}.`,
+					);
+				}
+				for (const leafId of report.unrestorableLeaves) {
+					lines.push(`  ${leafId}`);
+				}
+				const healthy =
+					report.corruptBlobs.length === 0 && report.missingBlobs.length === 0;
+				pi.sendMessage(
+					{
+						customType: "undo-redo.fsck",
+						content: `Undo/redo cache check: ${healthy ? "OK" : "problems found"}\n${lines.join("\n")}`,
+						display: true,
+						details: report,
+					},
+					{ triggerTurn: false },
+				);
+				if (!healthy) {
+					notify(
+						ctx,
+						"Undo/redo cache has damaged snapshots; affected leaves will be skipped by undo/redo.",
+						"warning",
+					);
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo cache check failed: ${message}`, "error");
+			}
 		},
 	});
 
@@ -311,8 +950,8 @@ export default function (pi: ExtensionAPI) {
 		content: string,
 	): Promise<{ text: string; outputPath?: string; truncated: boolean }> => {
 		const truncation = truncateHead(content, {
-			maxLines: DEFAULT_MAX_LINES,
-			maxBytes: DEFAULT_MAX_BYTES,
+			maxLines: settings.maxOutputLines,
+			maxBytes: settings.maxOutputBytes,
 		});
 
 		if (!truncation.truncated) {
@@ -334,11 +973,11 @@ export default function (pi: ExtensionAPI) {
 		return { text, outputPath, truncated: true };
 	};
 
-	const syncLeafToSession = async (
+	const branchSession = (
 		session: SessionState,
 		ctx: ExtensionContext,
 		targetId: string | null,
-	): Promise<void> => {
+	): void => {
 		const sessionManager = ctx.sessionManager as unknown as SessionBranching;
 		if (targetId === null) {
 			sessionManager.resetLeaf();
@@ -346,7 +985,15 @@ export default function (pi: ExtensionAPI) {
 			sessionManager.branch(targetId);
 		}
 		session.currentLeafId = ctx.sessionManager.getLeafId();
-		await session.tracker.restoreLeaf(targetId, [
+	};
+
+	const syncLeafToSession = async (
+		session: SessionState,
+		ctx: ExtensionContext,
+		targetId: string | null,
+	): Promise<void> => {
+		branchSession(session, ctx, targetId);
+		await restoreLeafSafely(ctx, session.tracker, targetId, [
 			session.sandboxRoot,
 			session.realRoot,
 		]);
@@ -362,10 +1009,18 @@ export default function (pi: ExtensionAPI) {
 		const previousUndo = [...session.undoStack];
 		const previousRedo = [...session.redoStack];
 
-		const targetId =
-			action === "undo" ? session.undoStack.pop() : session.redoStack.pop();
+		const skipped: string[] = [];
+		const targetId = popRestorableLeaf(
+			session,
+			action === "undo" ? session.undoStack : session.redoStack,
+			(leafId) => skipped.push(leafId),
+		);
+		const skippedNote =
+			skipped.length > 0
+				? ` Skipped damaged leaves: ${skipped.join(", ")} (see /undo-redo-fsck).`
+				: "";
 		if (!targetId) {
-			return { message: `No ${action} history.` };
+			return { message: `No ${action} history.${skippedNote}` };
 		}
 
 		if (previousLeaf) {
@@ -384,15 +1039,17 @@ export default function (pi: ExtensionAPI) {
 				targetId,
 				message:
 					`${label} applied: restored file snapshots for leaf ${targetId}. ` +
-					"This tool does not update the UI or current turn context; changes apply on the next user prompt.",
+					"This tool does not update the UI or current turn context; changes apply on the next user prompt." +
+					skippedNote,
 			};
 		} catch (error) {
 			session.undoStack.length = 0;
 			session.undoStack.push(...previousUndo);
 			session.redoStack.length = 0;
 			session.redoStack.push(...previousRedo);
-			session.currentLeafId = previousLeaf ?? null;
-			await syncLeafToSession(session, ctx, previousLeaf ?? null);
+			// A failed restore is rolled back as a whole, so the files still
+			// match the previous leaf.
+			branchSession(session, ctx, previousLeaf ?? null);
 			const message = error instanceof Error ? error.message : String(error);
 			throw new Error(`Undo/redo tool failed: ${message}`);
 		}
@@ -440,6 +1097,39 @@ export default function (pi: ExtensionAPI) {
 			}
 
 			if (params.action === "undo" || params.action === "redo") {
+				if (session.readOnly) {
+					return respond(READ_ONLY_NOTICE, { action: params.action }, true);
+				}
+				if (params.preview) {
+					const targetId = peekRestorableLeaf(
+						session,
+						params.action === "undo" ? session.undoStack : session.redoStack,
+					);
+					if (!targetId) {
+						return respond(`No ${params.action} history.`, {
+							action: params.action,
+							preview: params.preview,
+						});
+					}
+					const { text } = await describeNavigation(
+						session,
+						params.action,
+						targetId,
+						params.preview,
+					);
+					const output = await formatToolOutput(
+						session,
+						`undo-redo-preview-${targetId}`,
+						`${text}\n\nNothing was applied; call ${params.action} again without preview to apply it.`,
+					);
+					return respond(output.text, {
+						action: params.action,
+						preview: params.preview,
+						targetId,
+						truncated: output.truncated,
+						outputPath: output.outputPath,
+					});
+				}
 				const result = await applyToolNavigation(session, ctx, params.action);
 				return respond(result.message, {
 					action: params.action,
@@ -447,26 +1137,110 @@ export default function (pi: ExtensionAPI) {
 				});
 			}
 
+			if (params.action === "list_checkpoints") {
+				const checkpoints = session.tracker.listCheckpoints();
+				const text =
+					checkpoints.length === 0
+						? "No tool-call checkpoints in the current reply."
+						: `Tool-call checkpoints:\n${checkpoints.map(formatCheckpoint).join("\n")}`;
+				return respond(text, { action: params.action, checkpoints });
+			}
+
+			if (params.action === "rollback") {
+				if (session.readOnly) {
+					return respond(READ_ONLY_NOTICE, { action: params.action }, true);
+				}
+				if (!params.toolCallId) {
+					return respond(
+						"Rollback action requires a toolCallId.",
+						{ action: params.action },
+						true,
+					);
+				}
+				const dropped = await rollbackToCheckpoint(
+					ctx,
+					session,
+					params.toolCallId,
+				);
+				if (!dropped) {
+					return respond(
+						`No checkpoint for tool call ${params.toolCallId}.`,
+						{ action: params.action, toolCallId: params.toolCallId },
+						true,
+					);
+				}
+				return respond(formatRollback(dropped), {
+					action: params.action,
+					toolCallId: params.toolCallId,
+					dropped,
+				});
+			}
+
+			if (params.action === "revert") {
+				if (session.readOnly) {
+					return respond(READ_ONLY_NOTICE, { action: params.action }, true);
+				}
+				if (!params.path) {
+					return respond(
+						"Revert action requires a path.",
+						{ action: params.action },
+						true,
+					);
+				}
+				const revertLeafId = params.leafId ?? null;
+				const reverted = await revertFiles(
+					ctx,
+					session,
+					params.path,
+					revertLeafId,
+				);
+				if (!reverted) {
+					return respond(
+						`No buffered snapshot for leaf ${revertLeafId}.`,
+						{ action: params.action, leafId: revertLeafId },
+						true,
+					);
+				}
+				return respond(formatRevert(params.path, revertLeafId, reverted), {
+					action: params.action,
+					leafId: revertLeafId,
+					paths: reverted.paths,
+					previousLeafId: reverted.previousLeafId,
+				});
+			}
+
 			if (params.action === "list_diffs") {
-				const items = await listDiffItems(session.tracker, session.cache);
+				const { items, broken } = await listDiffItems(
+					session.tracker,
+					session.cache,
+				);
+				const warning =
+					broken.length > 0 ? `\n${formatBrokenLeaves(broken)}` : "";
 				if (items.length === 0) {
-					return respond("No buffered diffs available.", {
+					return respond(`No buffered diffs available.${warning}`, {
 						action: params.action,
 						items,
+						broken,
 					});
 				}
 
 				const lines = items
-					.map((item) => `[${item.leafId}] ${item.change} ${item.path}`)
+					.map((item) => {
+						const target = item.oldPath
+							? `${item.oldPath} -> ${item.path}`
+							: item.path;
+						return `[${item.leafId}] ${item.change} ${target}`;
+					})
 					.join("\n");
 				const output = await formatToolOutput(
 					session,
 					"undo-redo-diff-list",
-					`Buffered diffs:\n${lines}`,
+					`Buffered diffs:\n${lines}${warning}`,
 				);
 				return respond(output.text, {
 					action: params.action,
 					items,
+					broken,
 					truncated: output.truncated,
 					outputPath: output.outputPath,
 				});
@@ -508,13 +1282,12 @@ export default function (pi: ExtensionAPI) {
 				);
 			}
 
-			const baseManifest = session.tracker.getBaseManifest();
-			const baseEntry = baseManifest.get(relativePath);
-			const leafEntry = leafManifest.get(relativePath);
-			const diffText = await formatDiffText(
+			const diffText = await formatLeafDiff(
 				session.cache,
-				baseEntry,
-				leafEntry,
+				session.tracker.getBaseManifest(),
+				leafManifest,
+				relativePath,
+				settings.diffContextLines,
 			);
 			const output = await formatToolOutput(
 				session,
@@ -531,34 +1304,132 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 
+	const acquireSessionLock = async (
+		ctx: ExtensionContext,
+		lockPath: string,
+		mode: LockMode,
+	): Promise<LockAttempt> => {
+		if (mode !== "wait") return tryAcquireLock(lockPath);
+		return acquireLock(lockPath, {
+			timeoutMs: LOCK_WAIT_TIMEOUT_MS,
+			onWait: (owner) =>
+				notify(
+					ctx,
+					`Waiting for ${describeLockOwner(owner)} to release this session's undo/redo cache...`,
+					"info",
+				),
+		});
+	};
+
 	const initializeSession = async (
 		ctx: ExtensionContext,
-	): Promise<SessionState> => {
+	): Promise<SessionState | undefined> => {
 		const sessionId = ctx.sessionManager.getSessionId();
 		const realRoot = ctx.cwd;
 		const uiContext = ctx.hasUI ? ctx.ui : undefined;
-		const cache = createCache(sessionId);
+		const loaded = await loadSettings(realRoot);
+		settings = loaded.settings;
+		settingsSources = loaded.sources;
+		for (const warning of loaded.warnings) {
+			notify(ctx, warning, "warning");
+		}
+		const cache = createCache(sessionId, {
+			baseDir: settings.cacheDir,
+			sharedBlobs:
+				pi.getFlag(SHARED_BLOBS_FLAG) === true || settings.sharedBlobs,
+		});
+		disabledNotice = undefined;
+
+		const lockMode = getLockMode();
+		const lockAttempt = await acquireSessionLock(
+			ctx,
+			getLockPath(cache.root),
+			lockMode,
+		);
+		const lock = lockAttempt.acquired ? lockAttempt.handle : undefined;
+		if (!lockAttempt.acquired) {
+			const owner = describeLockOwner(lockAttempt.owner);
+			toolSet = createPassthroughToolSet(realRoot);
+			if (lockMode === "refuse") {
+				disabledNotice = `Undo/redo disabled: this session's cache is in use by ${owner}.`;
+				notify(ctx, disabledNotice, "warning");
+				return undefined;
+			}
+			notify(
+				ctx,
+				`Undo/redo is read-only: this session's cache is in use by ${owner}. Diffs are available, but files are not buffered or restored.`,
+				"warning",
+			);
+		}
+
 		await cache.ensure();
+		if (lock) {
+			const recovery = await recoverRestoreJournal(cache);
+			if (recovery) {
+				notify(
+					ctx,
+					recovery === "completed"
+						? "Finished an undo/redo restore that was interrupted."
+						: "Rolled back an undo/redo restore that was interrupted; files are as they were before it started.",
+					"warning",
+				);
+			}
+		}
+		const cacheConfig = await cache.readConfig();
+		cache.setCompression(cacheConfig.compression ?? getDefaultCompression());
+		await touchSession(settings.cacheDir, sessionId, realRoot).catch(() => {});
 
 		const sandboxRoot = path.join(cache.root, "sandbox");
 		const progressReporter = createProgressReporter(ctx);
+		const verifyHashes =
+			pi.getFlag(VERIFY_HASHES_FLAG) === true || settings.verifyHashes;
 		const sandboxState = new SandboxState(
 			realRoot,
 			sandboxRoot,
 			progressReporter,
+			settings.ignore,
+			verifyHashes ? settings.verifyHashesMaxSize : undefined,
 		);
-		await sandboxState.initialize();
+		if (lock) {
+			await sandboxState.initialize();
+		}
 
+		const cacheUsage: CacheUsage = {
+			blobBytes: (await cache.getBlobStats()).bytes,
+		};
 		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot, (stats) =>
-			updateStatus(stats, uiContext),
+			updateStatus(stats, uiContext, cacheUsage),
 		);
 		await tracker.loadBase();
 
 		const currentLeafId = ctx.sessionManager.getLeafId();
-		if (currentLeafId) {
+		const sessionState: SessionState = {
+			realRoot,
+			sandboxRoot,
+			cache,
+			tracker,
+			sandboxState,
+			cacheUsage,
+			ui: uiContext,
+			currentLeafId,
+			undoStack: [],
+			redoStack: [],
+			navigating: false,
+			readOnly: !lock,
+			lock,
+		};
+		if (!lock) {
+			updateStatus(tracker.getTrackedStats(), uiContext, cacheUsage);
+			return sessionState;
+		}
+
+		if (currentLeafId && tracker.isRestorable(currentLeafId)) {
 			const leafManifest = await tracker.loadLeaf(currentLeafId);
 			if (leafManifest) {
-				await tracker.restoreLeaf(currentLeafId, [sandboxRoot, realRoot]);
+				await restoreLeafSafely(ctx, tracker, currentLeafId, [
+					sandboxRoot,
+					realRoot,
+				]);
 			}
 		}
 
@@ -569,7 +1440,8 @@ export default function (pi: ExtensionAPI) {
 			sandboxRoot,
 			tracker,
 			sandboxState,
-			updateStatus: () => updateStatus(tracker.getTrackedStats(), uiContext),
+			updateStatus: () =>
+				updateStatus(tracker.getTrackedStats(), uiContext, cacheUsage),
 		});
 
 		if (ctx.hasUI) {
@@ -583,24 +1455,11 @@ export default function (pi: ExtensionAPI) {
 			);
 		}
 
-		const sessionState: SessionState = {
-			realRoot,
-			sandboxRoot,
-			cache,
-			tracker,
-			sandboxState,
-			ui: uiContext,
-			currentLeafId,
-			undoStack: [],
-			redoStack: [],
-			navigating: false,
-		};
-
 		if (currentLeafId) {
 			await tracker.saveLeaf(currentLeafId);
 		}
 
-		updateStatus(tracker.getTrackedStats(), uiContext);
+		updateStatus(tracker.getTrackedStats(), uiContext, cacheUsage);
 		return sessionState;
 	};
 
@@ -608,9 +1467,11 @@ export default function (pi: ExtensionAPI) {
 		description:
 			"Clear the undo/redo extension cache (snapshots, diffs, sandbox) for the current session",
 		handler: async (_args: string, ctx: ExtensionCommandContext) => {
-			const session = ensureState(ctx);
+			const session = ensureWritableState(ctx);
 			if (!session) return;
 			try {
+				session.sandboxState.close();
+				await session.lock?.release();
 				await rm(session.cache.root, { recursive: true, force: true });
 				state = await initializeSession(ctx);
 				notify(
@@ -625,9 +1486,420 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 
+	pi.registerCommand("undo-redo-settings", {
+		description:
+			"Show the effective undo/redo settings and where they came from",
+		handler: async () => {
+			const sources =
+				settingsSources.length > 0
+					? settingsSources.map((source) => `- ${source}`).join("\n")
+					: "- (defaults only)";
+			pi.sendMessage(
+				{
+					customType: "undo-redo.settings",
+					content: `Undo/redo settings:\n${JSON.stringify(settings, null, 2)}\n\nLoaded from:\n${sources}`,
+					display: true,
+					details: { settings, sources: settingsSources },
+				},
+				{ triggerTurn: false },
+			);
+		},
+	});
+
+	const formatIgnoreExplanation = (
+		relativePath: string,
+		explanation: IgnoreExplanation,
+		realRoot: string,
+	): string => {
+		const verdict = explanation.ignored
+			? "is ignored (not sandboxed)"
+			: "is sandboxed";
+		const { rule, directory } = explanation;
+		if (!rule) return `${relativePath} ${verdict}: no ignore rule matches it.`;
+		const source = isWithinRoot(rule.source, realRoot)
+			? path.relative(realRoot, rule.source)
+			: rule.source;
+		const match = `\`${rule.pattern}\` (${source}:${rule.line})`;
+		return directory
+			? `${relativePath} ${verdict}: its parent directory ${directory}/ matches ${match}.`
+			: `${relativePath} ${verdict}: matches ${match}.`;
+	};
+
+	pi.registerCommand("undo-redo-why", {
+		description:
+			"Explain whether a path is sandboxed and which ignore rule decided: /undo-redo-why <path>",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureState(ctx);
+			if (!session) return;
+			const input = args.trim();
+			if (!input) {
+				notify(ctx, "Usage: /undo-redo-why <path>", "warning");
+				return;
+			}
+			const relativePath = session.tracker.resolveRelativePath(
+				resolveUserPath(input, session.realRoot),
+			);
+			if (!relativePath) {
+				notify(ctx, `${input} is outside the project root.`, "warning");
+				return;
+			}
+			try {
+				const stats = await lstat(
+					path.join(session.realRoot, fromPosix(relativePath)),
+				).catch(() => undefined);
+				const explanation = await session.sandboxState.explainPath(
+					relativePath,
+					stats?.isDirectory() ?? input.endsWith("/"),
+				);
+				notify(
+					ctx,
+					formatIgnoreExplanation(relativePath, explanation, session.realRoot),
+					"info",
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo why failed: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-export", {
+		description:
+			"Pack this session's undo history (manifests and snapshots) into a portable bundle: /undo-redo-export [path]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureState(ctx);
+			if (!session) return;
+			const outputPath = resolveUserPath(
+				args.trim() || getDefaultBundleName(ctx.sessionManager.getSessionId()),
+				session.realRoot,
+			);
+			try {
+				await ctx.waitForIdle();
+				if (!session.readOnly) {
+					await session.tracker.saveLeaf(session.currentLeafId);
+				}
+				const summary = await exportBundle(session.cache, outputPath, {
+					sessionId: ctx.sessionManager.getSessionId(),
+					realRoot: session.realRoot,
+				});
+				notify(
+					ctx,
+					[
+						`Exported ${summary.leafCount} leaves and ${summary.blobCount} snapshots to ${outputPath} (${formatSize(summary.bytes)}).`,
+						...(summary.broken?.length
+							? [formatBrokenLeaves(summary.broken)]
+							: []),
+					].join("\n"),
+					summary.broken?.length ? "warning" : "info",
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo export failed: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-import", {
+		description:
+			"Replace this session's undo history with an exported bundle: /undo-redo-import <path>",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			const input = args.trim();
+			if (!input) {
+				notify(ctx, "Usage: /undo-redo-import <path>", "warning");
+				return;
+			}
+			const bundlePath = resolveUserPath(input, session.realRoot);
+			if (ctx.hasUI && (await session.cache.listLeafIds()).length > 0) {
+				const confirmed = await ctx.ui.confirm(
+					"Import undo/redo bundle?",
+					`This replaces the undo history of the current session with ${bundlePath}.`,
+				);
+				if (!confirmed) return;
+			}
+			try {
+				await ctx.waitForIdle();
+				const summary = await importBundle(session.cache, bundlePath);
+				session.sandboxState.close();
+				await session.lock?.release();
+				state = await initializeSession(ctx);
+				notify(
+					ctx,
+					`Imported ${summary.leafCount} leaves from session ${summary.source.sessionId} (${summary.source.realRoot}). Browse them with /diff-stack and apply one with /undo-redo-restore.`,
+					"info",
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo import failed: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-restore", {
+		description:
+			"Restore the files of a cached leaf (for example from an imported bundle) into the workspace: /undo-redo-restore [leafId]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureWritableState(ctx);
+			if (!session) return;
+			let leafId = args.trim();
+			if (!leafId && ctx.hasUI) {
+				const leafIds = await session.cache.listLeafIds();
+				if (leafIds.length === 0) {
+					notify(ctx, "No cached leaves to restore.", "info");
+					return;
+				}
+				leafId = (await ctx.ui.select("Restore leaf", leafIds)) ?? "";
+			}
+			if (!leafId) return;
+			if (!session.tracker.isRestorable(leafId)) {
+				warnUnrestorable(ctx, leafId);
+				return;
+			}
+			try {
+				await ctx.waitForIdle();
+				if (!(await session.tracker.loadLeaf(leafId))) {
+					notify(ctx, `No buffered snapshot for leaf ${leafId}.`, "warning");
+					return;
+				}
+				await session.tracker.saveLeaf(session.currentLeafId);
+				await restoreLeafSafely(ctx, session.tracker, leafId, [
+					session.sandboxRoot,
+					session.realRoot,
+				]);
+				session.sandboxState.setStats(await session.sandboxState.rescan());
+				notify(ctx, `Restored file snapshots for leaf ${leafId}.`, "info");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo restore failed: ${message}`, "error");
+			}
+		},
+	});
+
+	const getRetentionPolicy = (): RetentionPolicy => {
+		const value = pi.getFlag(RETENTION_FLAG);
+		return parseRetentionPolicy(
+			typeof value === "string"
+				? value
+				: (settings.retention ?? DEFAULT_RETENTION_POLICY),
+		);
+	};
+
+	const formatAge = (timestamp: number): string => {
+		const minutes = Math.max(0, Math.floor((Date.now() - timestamp) / 60000));
+		if (minutes < 60) return `${minutes}m ago`;
+		const hours = Math.floor(minutes / 60);
+		if (hours < 48) return `${hours}h ago`;
+		return `${Math.floor(hours / 24)}d ago`;
+	};
+
+	const formatSessionRecord = (
+		record: SessionRecord,
+		currentId: string,
+	): string => {
+		const marker = record.sessionId === currentId ? "*" : " ";
+		const size = formatSize(record.bytes ?? 0);
+		const cwd = record.cwd ?? "(unknown project)";
+		return `${marker} ${record.sessionId}  ${size}  ${formatAge(record.lastUsed)}  ${cwd}`;
+	};
+
+	const formatPruneResult = (result: PruneResult, dryRun: boolean): string => {
+		const verb = dryRun ? "Would remove" : "Removed";
+		const suffix = result.removed.length === 1 ? "session" : "sessions";
+		const lines = result.removed.map(
+			({ session, reason }) => `- ${session.sessionId} (${reason})`,
+		);
+		return [
+			`${verb} ${result.removed.length} cached ${suffix}, ${formatSize(result.freedBytes)}.`,
+			...lines,
+		].join("\n");
+	};
+
+	const formatCompressionStats = (
+		stats: CompressionStats,
+		codec: BlobCodec,
+	): string => {
+		const ratio =
+			stats.storedBytes > 0
+				? (stats.originalBytes / stats.storedBytes).toFixed(2)
+				: "1.00";
+		const codecs = BLOB_CODECS.filter(
+			(candidate) => stats.codecCounts[candidate] > 0,
+		)
+			.map((candidate) => `${candidate}: ${stats.codecCounts[candidate]}`)
+			.join(", ");
+		return [
+			`Undo/redo blob store (compression: ${codec}):`,
+			`- Blobs: ${stats.blobCount}${codecs ? ` (${codecs})` : ""}`,
+			`- Original size: ${formatSize(stats.originalBytes)}`,
+			`- Stored size: ${formatSize(stats.storedBytes)}`,
+			`- Compression ratio: ${ratio}x`,
+		].join("\n");
+	};
+
+	pi.registerCommand("undo-redo-compression", {
+		description: `Show or set snapshot compression for this session (${BLOB_CODECS.join(", ")})`,
+		getArgumentCompletions: (prefix: string) =>
+			BLOB_CODECS.filter((codec) => codec.startsWith(prefix)).map((codec) => ({
+				value: codec,
+				label: codec,
+			})),
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const session = ensureState(ctx);
+			if (!session) return;
+			let codec = args.trim();
+			if (!codec && ctx.hasUI) {
+				codec =
+					(await ctx.ui.select(
+						`Snapshot compression (current: ${session.cache.getCompression()})`,
+						BLOB_CODECS,
+					)) ?? "";
+				if (!codec) return;
+			}
+			if (!codec) {
+				notify(
+					ctx,
+					`Snapshot compression: ${session.cache.getCompression()}`,
+					"info",
+				);
+				return;
+			}
+			if (!isBlobCodec(codec)) {
+				notify(
+					ctx,
+					`Unknown compression "${codec}". Use one of: ${BLOB_CODECS.join(", ")}.`,
+					"warning",
+				);
+				return;
+			}
+			if (session.readOnly) {
+				notify(ctx, READ_ONLY_NOTICE, "warning");
+				return;
+			}
+			try {
+				const config = await session.cache.readConfig();
+				await session.cache.writeConfig({ ...config, compression: codec });
+				session.cache.setCompression(codec);
+				notify(
+					ctx,
+					`Snapshot compression set to ${codec}. Existing blobs stay readable as they are.`,
+					"info",
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Failed to update compression: ${message}`, "error");
+			}
+		},
+	});
+
+	pi.registerCommand("undo-redo-cache", {
+		description:
+			"List cached undo/redo sessions, show blob store stats, or prune: /undo-redo-cache [list|stats|prune [age=30d,size=5GB,missing]]",
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const [subcommand = "list", ...rest] = args.trim().split(/\s+/);
+			const baseDir = settings.cacheDir;
+			const currentId = ctx.sessionManager.getSessionId();
+			try {
+				if (subcommand === "list" || subcommand === "") {
+					const sessions = await listSessions(baseDir, { measure: true });
+					if (sessions.length === 0) {
+						notify(ctx, "No cached undo/redo sessions.", "info");
+						return;
+					}
+					const total = sessions.reduce(
+						(sum, record) => sum + (record.bytes ?? 0),
+						0,
+					);
+					const lines = sessions.map((record) =>
+						formatSessionRecord(record, currentId),
+					);
+					pi.sendMessage(
+						{
+							customType: "undo-redo.cache",
+							content: `Undo/redo cache (${sessions.length} sessions, ${formatSize(total)}):\n${lines.join("\n")}`,
+							display: true,
+							details: { sessions },
+						},
+						{ triggerTurn: false },
+					);
+					return;
+				}
+
+				if (subcommand === "stats") {
+					const session = ensureState(ctx);
+					if (!session) return;
+					const stats = await session.cache.getCompressionStats();
+					pi.sendMessage(
+						{
+							customType: "undo-redo.cache",
+							content: formatCompressionStats(
+								stats,
+								session.cache.getCompression(),
+							),
+							display: true,
+							details: stats,
+						},
+						{ triggerTurn: false },
+					);
+					return;
+				}
+
+				if (subcommand !== "prune") {
+					notify(ctx, `Unknown subcommand: ${subcommand}`, "warning");
+					return;
+				}
+
+				const spec = rest.join(",");
+				const policy = spec ? parseRetentionPolicy(spec) : getRetentionPolicy();
+				if (isEmptyPolicy(policy)) {
+					notify(ctx, "No retention policy to apply.", "info");
+					return;
+				}
+				const protectedIds = new Set([currentId]);
+				const preview = await pruneSessions(baseDir, policy, {
+					protectedIds,
+					dryRun: true,
+				});
+				if (preview.removed.length === 0) {
+					notify(ctx, "No cached sessions match the retention policy.", "info");
+					return;
+				}
+				if (ctx.hasUI) {
+					const confirmed = await ctx.ui.confirm(
+						"Prune undo/redo cache?",
+						formatPruneResult(preview, true),
+					);
+					if (!confirmed) return;
+				}
+				const result = await pruneSessions(baseDir, policy, { protectedIds });
+				notify(ctx, formatPruneResult(result, false), "info");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(ctx, `Undo/redo cache command failed: ${message}`, "error");
+			}
+		},
+	});
+
+	const applyRetentionPolicy = async (ctx: ExtensionContext): Promise<void> => {
+		try {
+			const policy = getRetentionPolicy();
+			const result = await pruneSessions(settings.cacheDir, policy, {
+				protectedIds: new Set([ctx.sessionManager.getSessionId()]),
+			});
+			if (result.removed.length > 0) {
+				notify(ctx, formatPruneResult(result, false), "info");
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			notify(ctx, `Undo/redo cache pruning failed: ${message}`, "warning");
+		}
+	};
+
 	const initializeFromContext = async (
 		ctx: ExtensionContext,
 	): Promise<void> => {
+		state?.sandboxState.close();
+		await state?.lock?.release();
 		state = await initializeSession(ctx);
 	};
 
@@ -635,7 +1907,7 @@ export default function (pi: ExtensionAPI) {
 		event: TurnEndEvent,
 		ctx: ExtensionContext,
 	): Promise<void> => {
-		if (!state) return;
+		if (!state || state.readOnly) return;
 		if (isToolCallTurn(event.message)) return;
 		const leafId = ctx.sessionManager.getLeafId();
 		if (leafId && leafId !== state.currentLeafId) {
@@ -645,9 +1917,13 @@ export default function (pi: ExtensionAPI) {
 			state.currentLeafId = leafId;
 		}
 		await state.tracker.saveLeaf(state.currentLeafId);
+		await maybeCollectGarbage(state);
 	};
 
-	const handleSessionTree = async (event: SessionTreeEvent): Promise<void> => {
+	const handleSessionTree = async (
+		event: SessionTreeEvent,
+		ctx: ExtensionContext,
+	): Promise<void> => {
 		if (!state) return;
 		const newLeafId = event.newLeafId;
 		const oldLeafId = event.oldLeafId;
@@ -656,8 +1932,19 @@ export default function (pi: ExtensionAPI) {
 			state.undoStack.push(oldLeafId);
 		}
 
+		if (!state.readOnly && !state.tracker.isRestorable(newLeafId)) {
+			// Nothing is restored, so the workspace still holds the current
+			// leaf's files and that leaf stays current.
+			if (newLeafId) warnUnrestorable(ctx, newLeafId);
+			state.navigating = false;
+			return;
+		}
 		state.currentLeafId = newLeafId;
-		await state.tracker.restoreLeaf(newLeafId, [
+		if (state.readOnly) {
+			state.navigating = false;
+			return;
+		}
+		await restoreLeafSafely(ctx, state.tracker, newLeafId, [
 			state.sandboxRoot,
 			state.realRoot,
 		]);
@@ -669,6 +1956,7 @@ export default function (pi: ExtensionAPI) {
 		"session_start",
 		async (_event: SessionStartEvent, ctx: ExtensionContext) => {
 			await initializeFromContext(ctx);
+			await applyRetentionPolicy(ctx);
 		},
 	);
 
@@ -686,11 +1974,33 @@ export default function (pi: ExtensionAPI) {
 		},
 	);
 
+	pi.on(
+		"session_shutdown",
+		async (_event: SessionShutdownEvent, ctx: ExtensionContext) => {
+			if (!state) return;
+			await touchSession(
+				state.cache.baseDir,
+				ctx.sessionManager.getSessionId(),
+				state.realRoot,
+			).catch(() => {});
+			state.sandboxState.close();
+			await state.lock?.release();
+		},
+	);
+
+	pi.on("agent_start", async () => {
+		if (!state || state.readOnly) return;
+		state.tracker.resetCheckpoints();
+	});
+
 	pi.on("turn_end", async (event: TurnEndEvent, ctx: ExtensionContext) => {
 		await handleTurnEnd(event, ctx);
 	});
 
-	pi.on("session_tree", async (event: SessionTreeEvent) => {
-		await handleSessionTree(event);
-	});
+	pi.on(
+		"session_tree",
+		async (event: SessionTreeEvent, ctx: ExtensionContext) => {
+			await handleSessionTree(event, ctx);
+		},
+	);
 }
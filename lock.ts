@@ -0,0 +1,237 @@
+import { randomBytes } from "node:crypto";
+import {
+	link,
+	mkdir,
+	open,
+	readFile,
+	rename,
+	rm,
+	stat,
+} from "node:fs/promises";
+import { hostname } from "node:os";
+import path from "node:path";
+
+export type LockMode = "wait" | "read-only" | "refuse";
+
+export const LOCK_MODES: LockMode[] = ["wait", "read-only", "refuse"];
+export const LOCK_FILENAME = "lock";
+
+// Owners on other hosts cannot be probed, so their locks expire by age.
+const REMOTE_LOCK_TTL_MS = 24 * 60 * 60 * 1000;
+// A lock file that is still empty or half written after this long is abandoned.
+const INCOMPLETE_LOCK_TTL_MS = 10 * 1000;
+const DEFAULT_POLL_MS = 500;
+
+export interface LockOwner {
+	pid: number;
+	hostname: string;
+	acquiredAt: number;
+}
+
+export interface LockHandle {
+	path: string;
+	owner: LockOwner;
+	release(): Promise<void>;
+}
+
+export type LockAttempt =
+	| { acquired: true; handle: LockHandle }
+	| { acquired: false; owner: LockOwner | undefined };
+
+export function isLockMode(value: string): value is LockMode {
+	return (LOCK_MODES as string[]).includes(value);
+}
+
+export function getLockPath(cacheRoot: string): string {
+	return path.join(cacheRoot, LOCK_FILENAME);
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		return err.code === "EPERM";
+	}
+}
+
+export function isLockStale(
+	owner: LockOwner,
+	now = Date.now(),
+	localHost = hostname(),
+): boolean {
+	if (owner.hostname === localHost) {
+		return !isProcessAlive(owner.pid);
+	}
+	return now - owner.acquiredAt > REMOTE_LOCK_TTL_MS;
+}
+
+export function describeLockOwner(owner: LockOwner | undefined): string {
+	if (!owner) return "another pi process";
+	return `pi process ${owner.pid} on ${owner.hostname}`;
+}
+
+async function readLockOwner(lockPath: string): Promise<LockOwner | undefined> {
+	try {
+		const parsed = JSON.parse(
+			await readFile(lockPath, "utf-8"),
+		) as Partial<LockOwner>;
+		if (
+			typeof parsed.pid !== "number" ||
+			typeof parsed.hostname !== "string" ||
+			typeof parsed.acquiredAt !== "number"
+		) {
+			return undefined;
+		}
+		return parsed as LockOwner;
+	} catch (error) {
+		if (error instanceof SyntaxError) return undefined;
+		throw error;
+	}
+}
+
+async function isAbandoned(
+	lockPath: string,
+	owner: LockOwner | undefined,
+): Promise<boolean> {
+	if (owner) {
+		if (owner.pid === process.pid && owner.hostname === hostname()) {
+			return true;
+		}
+		return isLockStale(owner);
+	}
+	try {
+		const lockStats = await stat(lockPath);
+		return Date.now() - lockStats.mtimeMs > INCOMPLETE_LOCK_TTL_MS;
+	} catch {
+		return true;
+	}
+}
+
+function isSameOwner(
+	left: LockOwner | undefined,
+	right: LockOwner | undefined,
+): boolean {
+	if (!left || !right) return left === right;
+	return (
+		left.pid === right.pid &&
+		left.hostname === right.hostname &&
+		left.acquiredAt === right.acquiredAt
+	);
+}
+
+// Another process may have taken over the same abandoned lock since it was
+// read, so the file is renamed aside first and checked again: only the lock
+// that was judged abandoned is deleted, anything else is linked back.
+async function removeAbandonedLock(
+	lockPath: string,
+	abandoned: LockOwner | undefined,
+): Promise<void> {
+	const movedPath = `${lockPath}.${randomBytes(4).toString("hex")}.stale`;
+	try {
+		await rename(lockPath, movedPath);
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return;
+		throw error;
+	}
+	try {
+		const moved = await readLockOwner(movedPath).catch(() => undefined);
+		if (
+			isSameOwner(moved, abandoned) &&
+			(await isAbandoned(movedPath, moved))
+		) {
+			return;
+		}
+		await link(movedPath, lockPath).catch((error) => {
+			const err = error as NodeJS.ErrnoException;
+			if (err.code !== "EEXIST") throw error;
+		});
+	} finally {
+		await rm(movedPath, { force: true });
+	}
+}
+
+function createHandle(lockPath: string, owner: LockOwner): LockHandle {
+	let released = false;
+	return {
+		path: lockPath,
+		owner,
+		release: async () => {
+			if (released) return;
+			released = true;
+			const current = await readLockOwner(lockPath).catch(() => undefined);
+			if (
+				current &&
+				(current.pid !== owner.pid || current.hostname !== owner.hostname)
+			) {
+				return;
+			}
+			await rm(lockPath, { force: true });
+		},
+	};
+}
+
+export async function isLockHeld(lockPath: string): Promise<boolean> {
+	const owner = await readLockOwner(lockPath).catch(() => undefined);
+	return owner !== undefined && !isLockStale(owner);
+}
+
+export async function tryAcquireLock(lockPath: string): Promise<LockAttempt> {
+	await mkdir(path.dirname(lockPath), { recursive: true });
+	const owner: LockOwner = {
+		pid: process.pid,
+		hostname: hostname(),
+		acquiredAt: Date.now(),
+	};
+
+	for (let attempt = 0; attempt < 2; attempt += 1) {
+		try {
+			const handle = await open(lockPath, "wx");
+			try {
+				await handle.writeFile(JSON.stringify(owner));
+			} finally {
+				await handle.close();
+			}
+			return { acquired: true, handle: createHandle(lockPath, owner) };
+		} catch (error) {
+			const err = error as NodeJS.ErrnoException;
+			if (err.code !== "EEXIST") throw error;
+		}
+
+		const existing = await readLockOwner(lockPath).catch(() => undefined);
+		if (!(await isAbandoned(lockPath, existing))) {
+			return { acquired: false, owner: existing };
+		}
+		await removeAbandonedLock(lockPath, existing);
+	}
+
+	return {
+		acquired: false,
+		owner: await readLockOwner(lockPath).catch(() => undefined),
+	};
+}
+
+export async function acquireLock(
+	lockPath: string,
+	options: {
+		timeoutMs: number;
+		pollMs?: number;
+		onWait?: (owner: LockOwner | undefined) => void;
+	},
+): Promise<LockAttempt> {
+	const deadline = Date.now() + options.timeoutMs;
+	let notified = false;
+	for (;;) {
+		const attempt = await tryAcquireLock(lockPath);
+		if (attempt.acquired || Date.now() >= deadline) return attempt;
+		if (!notified) {
+			options.onWait?.(attempt.owner);
+			notified = true;
+		}
+		await new Promise((resolve) =>
+			setTimeout(resolve, options.pollMs ?? DEFAULT_POLL_MS),
+		);
+	}
+}
@@ -0,0 +1,102 @@
+import type { ManifestRecord } from "./types.js";
+
+export const CACHE_VERSION = 3;
+
+export type ManifestKind = "base" | "leaf";
+
+export interface ManifestPayload {
+	version?: number;
+	files?: ManifestRecord;
+	[key: string]: unknown;
+}
+
+export interface MigrationStep {
+	from: number;
+	to: number;
+	kinds?: ManifestKind[];
+	migrate(payload: ManifestPayload): ManifestPayload;
+}
+
+export class CacheVersionError extends Error {
+	constructor(
+		readonly filePath: string,
+		readonly version: number,
+		readonly supportedVersion: number,
+	) {
+		super(
+			`Undo/redo cache file ${filePath} uses format version ${version}, but this extension only supports up to version ${supportedVersion}. Update the extension or run /undo-redo-clear-cache.`,
+		);
+		this.name = "CacheVersionError";
+	}
+}
+
+// Manifests are upgraded in memory one version at a time; writes always use
+// CACHE_VERSION, so a file is rewritten in the new format on its next save.
+const MIGRATIONS: MigrationStep[] = [
+	{
+		// v2 records the entry kind, file mode and symlink target. Older entries
+		// were always regular files with an unknown mode.
+		from: 1,
+		to: 2,
+		migrate: (payload) => ({
+			...payload,
+			files: Object.fromEntries(
+				Object.entries(payload.files ?? {}).map(([filePath, entry]) => [
+					filePath,
+					entry.exists ? { kind: "file", ...entry } : entry,
+				]),
+			),
+		}),
+	},
+	{
+		// v3 leaves may be deltas against a parent leaf. Full manifests are
+		// valid v3 keyframes; the bump only keeps older builds from reading a
+		// delta as a complete manifest.
+		from: 2,
+		to: 3,
+		migrate: (payload) => payload,
+	},
+];
+
+export function detectManifestVersion(
+	payload: ManifestPayload,
+	filePath: string,
+): number {
+	if (payload.version === undefined) return 1;
+	if (!Number.isInteger(payload.version) || payload.version < 1) {
+		throw new Error(
+			`Undo/redo cache file ${filePath} has an invalid format version: ${String(payload.version)}`,
+		);
+	}
+	return payload.version;
+}
+
+export function migrateManifestPayload(
+	payload: ManifestPayload,
+	kind: ManifestKind,
+	filePath: string,
+	options: { steps?: MigrationStep[]; targetVersion?: number } = {},
+): ManifestPayload {
+	const steps = options.steps ?? MIGRATIONS;
+	const targetVersion = options.targetVersion ?? CACHE_VERSION;
+	let version = detectManifestVersion(payload, filePath);
+	if (version > targetVersion) {
+		throw new CacheVersionError(filePath, version, targetVersion);
+	}
+
+	let current = payload;
+	while (version < targetVersion) {
+		const step = steps.find((candidate) => candidate.from === version);
+		if (!step || step.to <= step.from) {
+			throw new Error(
+				`No undo/redo cache migration from version ${version} for ${filePath}`,
+			);
+		}
+		if (!step.kinds || step.kinds.includes(kind)) {
+			current = step.migrate(current);
+		}
+		version = step.to;
+		current = { ...current, version };
+	}
+	return current;
+}
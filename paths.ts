@@ -42,6 +42,21 @@ export function fromPosix(value: string): string {
 	return value.split("/").join(path.sep);
 }
 
+export function getParentPaths(relativePath: string): string[] {
+	const segments = relativePath.split("/");
+	return segments
+		.slice(1)
+		.map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+export function isGlobPattern(value: string): boolean {
+	return /[*?[]/.test(value);
+}
+
+export function comparePathDepth(left: string, right: string): number {
+	return left.split("/").length - right.split("/").length;
+}
+
 export function isWithinRoot(targetPath: string, rootPath: string): boolean {
 	const relative = path.relative(rootPath, targetPath);
 	return (
@@ -0,0 +1,330 @@
+import { randomBytes } from "node:crypto";
+import type { Stats } from "node:fs";
+import {
+	chmod,
+	lstat,
+	mkdir,
+	readFile,
+	rename,
+	rm,
+	symlink,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { Cache } from "./cache.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import { comparePathDepth, fromPosix } from "./paths.js";
+import { MODE_MASK, removeEmptyDirectory, STAGING_PREFIX } from "./sandbox.js";
+import type { FileState, Manifest } from "./types.js";
+
+const JOURNAL_VERSION = 1;
+
+// prepare: directories and staged files are being created.
+// apply: originals are being swapped out for the staged files.
+// commit: every swap succeeded; only cleanup is left.
+type JournalPhase = "prepare" | "apply" | "commit";
+
+interface JournalFile {
+	target: string;
+	existed: boolean;
+	backup: string;
+	staged?: string;
+	entry?: FileState;
+}
+
+interface JournalDirectory {
+	target: string;
+	mode?: number;
+	previousMode?: number;
+}
+
+interface RestoreJournal {
+	version: number;
+	phase: JournalPhase;
+	createdAt: number;
+	stagingDirectories: string[];
+	files: JournalFile[];
+	createdDirectories: JournalDirectory[];
+	modeChanges: JournalDirectory[];
+	removedDirectories: JournalDirectory[];
+}
+
+export type JournalRecovery = "rolled-back" | "completed";
+
+async function lstatOrUndefined(
+	targetPath: string,
+): Promise<Stats | undefined> {
+	try {
+		return await lstat(targetPath);
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return undefined;
+		throw error;
+	}
+}
+
+async function pathExists(targetPath: string): Promise<boolean> {
+	return (await lstatOrUndefined(targetPath)) !== undefined;
+}
+
+function getDepth(targetPath: string): number {
+	return targetPath.split(path.sep).length;
+}
+
+async function planRoot(
+	journal: RestoreJournal,
+	manifest: Manifest,
+	root: string,
+	stagingDir: string,
+): Promise<void> {
+	const created = new Map<string, number | undefined>();
+	const ensureParents = async (dirPath: string, mode?: number) => {
+		let current = dirPath;
+		let currentMode = mode;
+		while (current !== root && !created.has(current)) {
+			if (await pathExists(current)) break;
+			created.set(current, currentMode);
+			current = path.dirname(current);
+			currentMode = undefined;
+		}
+	};
+
+	const directories = [...manifest]
+		.filter(([, entry]) => entry.kind === "directory")
+		.sort(([left], [right]) => comparePathDepth(left, right));
+	for (const [relativePath, entry] of directories) {
+		const target = path.join(root, fromPosix(relativePath));
+		const stats = await lstatOrUndefined(target);
+		if (!entry.exists) {
+			if (stats?.isDirectory()) {
+				journal.removedDirectories.push({
+					target,
+					previousMode: stats.mode & MODE_MASK,
+				});
+			}
+		} else if (!stats) {
+			await ensureParents(target, entry.mode);
+		} else if (
+			entry.mode !== undefined &&
+			(stats.mode & MODE_MASK) !== entry.mode
+		) {
+			journal.modeChanges.push({
+				target,
+				mode: entry.mode,
+				previousMode: stats.mode & MODE_MASK,
+			});
+		}
+	}
+
+	for (const [relativePath, entry] of manifest) {
+		if (entry.kind === "directory") continue;
+		const target = path.join(root, fromPosix(relativePath));
+		const stats = await lstatOrUndefined(target);
+		if (stats?.isDirectory()) {
+			throw new Error(`Cannot restore ${target}: it is a directory`);
+		}
+		const index = journal.files.length;
+		const backup = path.join(stagingDir, `${index}.old`);
+		if (!entry.exists) {
+			if (stats) journal.files.push({ target, existed: true, backup });
+			continue;
+		}
+		if (entry.kind === "symlink" ? entry.target === undefined : !entry.hash) {
+			continue;
+		}
+		await ensureParents(path.dirname(target));
+		journal.files.push({
+			target,
+			existed: stats !== undefined,
+			backup,
+			staged: path.join(stagingDir, `${index}.new`),
+			entry,
+		});
+	}
+
+	for (const [target, mode] of created) {
+		journal.createdDirectories.push({ target, mode });
+	}
+}
+
+async function planRestore(
+	manifest: Manifest,
+	roots: string[],
+): Promise<RestoreJournal> {
+	const nonce = randomBytes(4).toString("hex");
+	const journal: RestoreJournal = {
+		version: JOURNAL_VERSION,
+		phase: "prepare",
+		createdAt: Date.now(),
+		stagingDirectories: [],
+		files: [],
+		createdDirectories: [],
+		modeChanges: [],
+		removedDirectories: [],
+	};
+	for (const root of roots) {
+		const stagingDir = path.join(root, `${STAGING_PREFIX}${nonce}`);
+		journal.stagingDirectories.push(stagingDir);
+		await planRoot(journal, manifest, root, stagingDir);
+	}
+	journal.createdDirectories.sort(
+		(left, right) => getDepth(left.target) - getDepth(right.target),
+	);
+	journal.removedDirectories.sort(
+		(left, right) => getDepth(right.target) - getDepth(left.target),
+	);
+	return journal;
+}
+
+async function stageFile(cache: Cache, file: JournalFile): Promise<void> {
+	const { entry, staged } = file;
+	if (!entry || !staged) return;
+	if (entry.kind === "symlink" && entry.target !== undefined) {
+		await symlink(entry.target, staged);
+		return;
+	}
+	await writeFile(staged, await cache.readBlob(entry.hash as string));
+	if (entry.mode !== undefined) {
+		await chmod(staged, entry.mode);
+	}
+}
+
+async function writeJournal(
+	journalPath: string,
+	journal: RestoreJournal,
+): Promise<void> {
+	await writeFileAtomic(journalPath, JSON.stringify(journal));
+}
+
+async function cleanupJournal(journal: RestoreJournal): Promise<void> {
+	for (const stagingDir of journal.stagingDirectories) {
+		await rm(stagingDir, { recursive: true, force: true });
+	}
+}
+
+// Every step checks the disk instead of trusting how far the restore got, so
+// the same journal can be rolled back again after a crash.
+async function rollbackJournal(journal: RestoreJournal): Promise<void> {
+	if (journal.phase === "apply") {
+		for (const directory of [...journal.removedDirectories].reverse()) {
+			if (await pathExists(directory.target)) continue;
+			await mkdir(directory.target, { recursive: true });
+			if (directory.previousMode !== undefined) {
+				await chmod(directory.target, directory.previousMode);
+			}
+		}
+		for (const file of [...journal.files].reverse()) {
+			if (file.staged && !(await pathExists(file.staged))) {
+				await rm(file.target, { force: true });
+			}
+			if (file.existed && (await pathExists(file.backup))) {
+				await rename(file.backup, file.target);
+			}
+		}
+	}
+	for (const directory of journal.modeChanges) {
+		if (
+			directory.previousMode === undefined ||
+			!(await pathExists(directory.target))
+		) {
+			continue;
+		}
+		await chmod(directory.target, directory.previousMode);
+	}
+	await cleanupJournal(journal);
+	for (const directory of [...journal.createdDirectories].reverse()) {
+		await removeEmptyDirectory(directory.target);
+	}
+}
+
+async function runJournal(
+	cache: Cache,
+	journal: RestoreJournal,
+): Promise<void> {
+	for (const stagingDir of journal.stagingDirectories) {
+		await mkdir(stagingDir, { recursive: true });
+	}
+	for (const directory of journal.createdDirectories) {
+		await mkdir(directory.target);
+		if (directory.mode !== undefined) {
+			await chmod(directory.target, directory.mode);
+		}
+	}
+	for (const directory of journal.modeChanges) {
+		await chmod(directory.target, directory.mode as number);
+	}
+	for (const file of journal.files) {
+		await stageFile(cache, file);
+	}
+
+	journal.phase = "apply";
+	await writeJournal(cache.journalPath, journal);
+	for (const file of journal.files) {
+		if (file.existed) {
+			await rename(file.target, file.backup);
+		}
+		if (file.staged) {
+			await rename(file.staged, file.target);
+		}
+	}
+	for (const directory of journal.removedDirectories) {
+		await removeEmptyDirectory(directory.target);
+	}
+}
+
+// Stages every file next to its root, then swaps them in with renames. The
+// journal in the cache records each step so a failed or interrupted restore
+// can put every root back the way it was.
+export async function applyManifestTransaction(
+	cache: Cache,
+	manifest: Manifest,
+	roots: string[],
+): Promise<void> {
+	const journal = await planRestore(manifest, roots);
+	await writeJournal(cache.journalPath, journal);
+	try {
+		await runJournal(cache, journal);
+	} catch (error) {
+		try {
+			await rollbackJournal(journal);
+		} catch (rollbackError) {
+			const message =
+				rollbackError instanceof Error
+					? rollbackError.message
+					: String(rollbackError);
+			throw new Error(
+				`Restore failed and could not be rolled back (${message}); it will be retried on the next session start.`,
+				{ cause: error },
+			);
+		}
+		await rm(cache.journalPath, { force: true });
+		throw error;
+	}
+
+	journal.phase = "commit";
+	await writeJournal(cache.journalPath, journal);
+	await cleanupJournal(journal);
+	await rm(cache.journalPath, { force: true });
+}
+
+// Finishes a restore that was interrupted after all of its swaps, and rolls
+// back any other leftover journal.
+export async function recoverRestoreJournal(
+	cache: Cache,
+): Promise<JournalRecovery | undefined> {
+	let journal: RestoreJournal;
+	try {
+		journal = JSON.parse(await readFile(cache.journalPath, "utf-8"));
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return undefined;
+		throw error;
+	}
+	if (journal.phase === "commit") {
+		await cleanupJournal(journal);
+	} else {
+		await rollbackJournal(journal);
+	}
+	await rm(cache.journalPath, { force: true });
+	return journal.phase === "commit" ? "completed" : "rolled-back";
+}
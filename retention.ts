@@ -0,0 +1,334 @@
+import { type Dirent, existsSync } from "node:fs";
+import { lstat, mkdir, readdir, readFile, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { getSharedBlobsDir } from "./cache.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import { collectSharedGarbage, parseSize } from "./gc.js";
+import { getLockPath, isLockHeld } from "./lock.js";
+import { readSandboxMeta } from "./sandbox.js";
+
+const INDEX_FILENAME = "index.json";
+const INDEX_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_POLICY = "age=30d,missing";
+
+export interface SessionRecord {
+	sessionId: string;
+	lastUsed: number;
+	cwd?: string;
+	bytes?: number;
+}
+
+export interface RetentionPolicy {
+	maxAgeMs?: number;
+	maxTotalBytes?: number;
+	pruneMissingProjects?: boolean;
+}
+
+export type PruneReason = "age" | "size" | "missing";
+
+export interface PruneCandidate {
+	session: SessionRecord;
+	reason: PruneReason;
+}
+
+export interface PruneResult {
+	removed: PruneCandidate[];
+	freedBytes: number;
+}
+
+interface SessionIndexFile {
+	version: number;
+	sessions: Record<string, Omit<SessionRecord, "sessionId">>;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: DAY_MS,
+	w: 7 * DAY_MS,
+};
+
+export function parseDuration(value: string): number | undefined {
+	const match = value
+		.trim()
+		.toLowerCase()
+		.match(/^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/);
+	if (!match) return undefined;
+	return Math.floor(Number.parseFloat(match[1]) * DURATION_UNITS[match[2]]);
+}
+
+export function parseRetentionPolicy(spec: string): RetentionPolicy {
+	const policy: RetentionPolicy = {};
+	const trimmed = spec.trim();
+	if (!trimmed || trimmed === "off" || trimmed === "0") return policy;
+
+	for (const part of trimmed.split(/[,\s]+/)) {
+		if (!part) continue;
+		const [key, value] = part.split("=", 2);
+		switch (key) {
+			case "age": {
+				const maxAgeMs = value ? parseDuration(value) : undefined;
+				if (maxAgeMs === undefined) {
+					throw new Error(`Invalid retention age: ${value ?? ""}`);
+				}
+				policy.maxAgeMs = maxAgeMs;
+				break;
+			}
+			case "size": {
+				const maxTotalBytes = value ? parseSize(value) : undefined;
+				if (maxTotalBytes === undefined) {
+					throw new Error(`Invalid retention size: ${value ?? ""}`);
+				}
+				policy.maxTotalBytes = maxTotalBytes;
+				break;
+			}
+			case "missing":
+				policy.pruneMissingProjects = true;
+				break;
+			default:
+				throw new Error(`Unknown retention policy: ${part}`);
+		}
+	}
+	return policy;
+}
+
+export function isEmptyPolicy(policy: RetentionPolicy): boolean {
+	return (
+		policy.maxAgeMs === undefined &&
+		policy.maxTotalBytes === undefined &&
+		!policy.pruneMissingProjects
+	);
+}
+
+async function readSessionIndex(
+	baseDir: string,
+): Promise<Map<string, SessionRecord>> {
+	const index = new Map<string, SessionRecord>();
+	try {
+		const raw = await readFile(path.join(baseDir, INDEX_FILENAME), "utf-8");
+		const parsed = JSON.parse(raw) as Partial<SessionIndexFile>;
+		for (const [sessionId, record] of Object.entries(parsed.sessions ?? {})) {
+			index.set(sessionId, { ...record, sessionId });
+		}
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code !== "ENOENT" && !(error instanceof SyntaxError)) {
+			throw error;
+		}
+	}
+	return index;
+}
+
+async function writeSessionIndex(
+	baseDir: string,
+	index: Map<string, SessionRecord>,
+): Promise<void> {
+	const payload: SessionIndexFile = { version: INDEX_VERSION, sessions: {} };
+	for (const { sessionId, ...record } of index.values()) {
+		payload.sessions[sessionId] = record;
+	}
+	await mkdir(baseDir, { recursive: true });
+	await writeFileAtomic(
+		path.join(baseDir, INDEX_FILENAME),
+		JSON.stringify(payload, null, 2),
+	);
+}
+
+export async function touchSession(
+	baseDir: string,
+	sessionId: string,
+	cwd: string,
+): Promise<void> {
+	const index = await readSessionIndex(baseDir);
+	const previous = index.get(sessionId);
+	index.set(sessionId, {
+		...previous,
+		sessionId,
+		cwd,
+		lastUsed: Date.now(),
+	});
+	await writeSessionIndex(baseDir, index);
+}
+
+export async function measureDirectory(dirPath: string): Promise<number> {
+	let total = 0;
+	let entries: Dirent[];
+	try {
+		entries = await readdir(dirPath, { withFileTypes: true });
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return 0;
+		throw error;
+	}
+	for (const entry of entries) {
+		const entryPath = path.join(dirPath, entry.name);
+		if (entry.isDirectory()) {
+			total += await measureDirectory(entryPath);
+			continue;
+		}
+		try {
+			total += (await lstat(entryPath)).size;
+		} catch {
+			// Entry removed while measuring; skip it.
+		}
+	}
+	return total;
+}
+
+// Directories missing from the index only count as sessions when they hold
+// something this extension writes. Anything else in the cache directory is
+// not ours to prune.
+async function discoverSession(
+	baseDir: string,
+	sessionId: string,
+): Promise<SessionRecord | undefined> {
+	const sessionRoot = path.join(baseDir, sessionId);
+	let meta: Awaited<ReturnType<typeof readSandboxMeta>>;
+	try {
+		meta = await readSandboxMeta(path.join(sessionRoot, "sandbox"));
+	} catch {
+		meta = null;
+	}
+	if (
+		!meta &&
+		!existsSync(path.join(sessionRoot, "base.json")) &&
+		!existsSync(path.join(sessionRoot, "leaves"))
+	) {
+		return undefined;
+	}
+	const rootStats = await stat(sessionRoot);
+	return { sessionId, cwd: meta?.realRoot, lastUsed: rootStats.mtimeMs };
+}
+
+export async function listSessions(
+	baseDir: string,
+	options: { measure?: boolean } = {},
+): Promise<SessionRecord[]> {
+	if (!existsSync(baseDir)) return [];
+	const index = await readSessionIndex(baseDir);
+	const entries = await readdir(baseDir, { withFileTypes: true });
+	const sessions: SessionRecord[] = [];
+	const seen = new Set<string>();
+
+	for (const entry of entries) {
+		if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+		const record =
+			index.get(entry.name) ?? (await discoverSession(baseDir, entry.name));
+		if (!record) continue;
+		seen.add(entry.name);
+		if (options.measure) {
+			record.bytes = await measureDirectory(path.join(baseDir, entry.name));
+		}
+		index.set(entry.name, record);
+		sessions.push(record);
+	}
+
+	for (const sessionId of index.keys()) {
+		if (!seen.has(sessionId)) {
+			index.delete(sessionId);
+		}
+	}
+	await writeSessionIndex(baseDir, index);
+
+	return sessions.sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+export function selectSessionsToPrune(
+	sessions: SessionRecord[],
+	policy: RetentionPolicy,
+	options: {
+		now: number;
+		protectedIds?: Set<string>;
+		projectExists?: (cwd: string) => boolean;
+	},
+): PruneCandidate[] {
+	const protectedIds = options.protectedIds ?? new Set<string>();
+	const projectExists = options.projectExists ?? existsSync;
+	const candidates: PruneCandidate[] = [];
+	const kept: SessionRecord[] = [];
+
+	for (const session of sessions) {
+		if (protectedIds.has(session.sessionId)) {
+			kept.push(session);
+			continue;
+		}
+		if (
+			policy.pruneMissingProjects &&
+			session.cwd &&
+			!projectExists(session.cwd)
+		) {
+			candidates.push({ session, reason: "missing" });
+			continue;
+		}
+		if (
+			policy.maxAgeMs !== undefined &&
+			options.now - session.lastUsed > policy.maxAgeMs
+		) {
+			candidates.push({ session, reason: "age" });
+			continue;
+		}
+		kept.push(session);
+	}
+
+	if (policy.maxTotalBytes !== undefined) {
+		let total = kept.reduce((sum, session) => sum + (session.bytes ?? 0), 0);
+		const oldestFirst = [...kept].sort((a, b) => a.lastUsed - b.lastUsed);
+		for (const session of oldestFirst) {
+			if (total <= policy.maxTotalBytes) break;
+			if (protectedIds.has(session.sessionId)) continue;
+			candidates.push({ session, reason: "size" });
+			total -= session.bytes ?? 0;
+		}
+	}
+
+	return candidates;
+}
+
+export async function pruneSessions(
+	baseDir: string,
+	policy: RetentionPolicy,
+	options: { protectedIds?: Set<string>; dryRun?: boolean } = {},
+): Promise<PruneResult> {
+	if (isEmptyPolicy(policy)) return { removed: [], freedBytes: 0 };
+	const sessions = await listSessions(baseDir, {
+		measure: policy.maxTotalBytes !== undefined,
+	});
+	const protectedIds = new Set(options.protectedIds);
+	for (const session of sessions) {
+		if (await isLockHeld(getLockPath(path.join(baseDir, session.sessionId)))) {
+			protectedIds.add(session.sessionId);
+		}
+	}
+	const candidates = selectSessionsToPrune(sessions, policy, {
+		now: Date.now(),
+		protectedIds,
+	});
+	if (options.dryRun || candidates.length === 0) {
+		return {
+			removed: candidates,
+			freedBytes: candidates.reduce(
+				(sum, { session }) => sum + (session.bytes ?? 0),
+				0,
+			),
+		};
+	}
+
+	const index = await readSessionIndex(baseDir);
+	let freedBytes = 0;
+	for (const candidate of candidates) {
+		const sessionRoot = path.join(baseDir, candidate.session.sessionId);
+		const bytes =
+			candidate.session.bytes ?? (await measureDirectory(sessionRoot));
+		candidate.session.bytes = bytes;
+		await rm(sessionRoot, { recursive: true, force: true });
+		index.delete(candidate.session.sessionId);
+		freedBytes += bytes;
+	}
+	await writeSessionIndex(baseDir, index);
+	if (existsSync(getSharedBlobsDir(baseDir))) {
+		freedBytes += (await collectSharedGarbage(baseDir)).freedBytes;
+	}
+	return { removed: candidates, freedBytes };
+}
@@ -1,21 +1,45 @@
 import { constants } from "node:fs";
 import {
 	access,
+	chmod,
 	copyFile,
-	cp,
+	lstat,
+	lutimes,
 	mkdir,
 	readdir,
 	readFile,
+	readlink,
 	rm,
-	stat,
-	writeFile,
+	rmdir,
+	symlink,
 } from "node:fs/promises";
 import path from "node:path";
 import ignore, { type Ignore, type Options } from "ignore";
-import { fromPosix, toPosix } from "./paths.js";
-import type { SandboxEntryStats, SandboxProgress } from "./types.js";
-
-const DEFAULT_IGNORES = [
+import { hashBuffer } from "./cache.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import {
+	type IgnoreExplanation,
+	type IgnoreMatcher,
+	loadIgnoreMatcher,
+} from "./gitignore.js";
+import {
+	comparePathDepth,
+	fromPosix,
+	getParentPaths,
+	isGlobPattern,
+} from "./paths.js";
+import type {
+	SandboxEntryStats,
+	SandboxProgress,
+	SandboxStrategy,
+} from "./types.js";
+import { SandboxWatcher } from "./watcher.js";
+
+// Restores stage files in directories with this prefix at the top of the
+// sandbox and the workspace. One left behind by an interrupted restore whose
+// session never starts again must not end up tracked.
+export const STAGING_PREFIX = ".undo-redo-restore-";
+export const DEFAULT_IGNORES = [
 	".git/",
 	"node_modules/",
 	"dist/",
@@ -25,11 +49,34 @@ const DEFAULT_IGNORES = [
 	"target/",
 	"out/",
 	".cache/",
+	`/${STAGING_PREFIX}*/`,
 ];
 const META_FILENAME = ".undo-redo-meta.json";
-
-interface SandboxMeta {
+const SCAN_CONCURRENCY = 32;
+// Past this many changed paths a full scan is cheaper than re-statting each.
+const MAX_WATCHED_PATHS = 5000;
+export const MODE_MASK = 0o777;
+// Largest file that gets a content fingerprint when hashes are verified.
+export const DEFAULT_HASH_LIMIT = 1024 * 1024;
+// Timestamps younger than this are not trusted. Two seconds covers
+// filesystems that store whole or even-numbered seconds.
+const RACY_WINDOW_MS = 2000;
+// Errors a forced clone fails with when the filesystem (or the pair of
+// filesystems) cannot share extents.
+const REFLINK_UNSUPPORTED = new Set([
+	"ENOTSUP",
+	"EOPNOTSUPP",
+	"EXDEV",
+	"EINVAL",
+	"ENOSYS",
+	"ENOTTY",
+]);
+
+export interface SandboxMeta {
 	realRoot: string;
+	strategy?: SandboxStrategy;
+	// False while a lazy sandbox still lacks files it has not needed yet.
+	materialized?: boolean;
 }
 
 function createIgnore(options?: Options): Ignore {
@@ -37,38 +84,89 @@ function createIgnore(options?: Options): Ignore {
 	return factory(options);
 }
 
-async function ensureDir(dirPath: string): Promise<void> {
-	await mkdir(dirPath, { recursive: true });
+// Globs use gitignore syntax, the same as the ignore list.
+export function matchPaths(pattern: string, relativePaths: string[]): string[] {
+	if (!isGlobPattern(pattern)) {
+		return relativePaths.filter((relativePath) => relativePath === pattern);
+	}
+	const matcher = createIgnore().add(pattern);
+	return relativePaths.filter((relativePath) => matcher.ignores(relativePath));
 }
 
-function shouldIgnore(
-	ignoreMatcher: Ignore,
-	relativePath: string,
-	isDir: boolean,
-): boolean {
-	if (!relativePath) return false;
-	if (ignoreMatcher.ignores(relativePath)) return true;
-	if (isDir && ignoreMatcher.ignores(`${relativePath}/`)) return true;
-	return false;
+async function ensureDir(dirPath: string): Promise<void> {
+	await mkdir(dirPath, { recursive: true });
 }
 
-async function loadIgnoreMatcher(realRoot: string): Promise<Ignore> {
-	const matcher = createIgnore();
-	matcher.add(DEFAULT_IGNORES);
+// Writing through an existing symlink would modify its target instead.
+export async function removeIfSymlink(filePath: string): Promise<void> {
 	try {
-		const gitignorePath = path.join(realRoot, ".gitignore");
-		const contents = await readFile(gitignorePath, "utf-8");
-		matcher.add(contents);
+		if ((await lstat(filePath)).isSymbolicLink()) {
+			await rm(filePath, { force: true });
+		}
 	} catch (error) {
 		const err = error as NodeJS.ErrnoException;
-		if (err.code !== "ENOENT") {
-			throw error;
-		}
+		if (err.code !== "ENOENT") throw error;
 	}
-	return matcher;
 }
 
-async function readSandboxMeta(
+async function copyEntry(
+	sourcePath: string,
+	targetPath: string,
+	copyMode = 0,
+): Promise<void> {
+	const sourceStats = await lstat(sourcePath);
+	await ensureDir(path.dirname(targetPath));
+	if (sourceStats.isSymbolicLink()) {
+		const linkTarget = await readlink(sourcePath);
+		await rm(targetPath, { force: true });
+		await symlink(linkTarget, targetPath);
+		return;
+	}
+	await removeIfSymlink(targetPath);
+	await copyFile(sourcePath, targetPath, copyMode);
+	await chmod(targetPath, sourceStats.mode & MODE_MASK);
+}
+
+// Copies entry by entry so files can be cloned, keeping timestamps so the
+// next start can tell which files changed. With `COPYFILE_FICLONE_FORCE` the
+// first file doubles as the probe for reflink support.
+async function copyTree(
+	realRoot: string,
+	sandboxRoot: string,
+	ignoreMatcher: IgnoreMatcher,
+	copyMode: number,
+	skipExisting = false,
+): Promise<void> {
+	const walk = async (relativeDir: string): Promise<void> => {
+		const sourceDir = path.join(realRoot, fromPosix(relativeDir));
+		const entries = await readdir(sourceDir, { withFileTypes: true });
+		await ignoreMatcher.prepare(relativeDir);
+		for (const entry of entries) {
+			const relative = relativeDir
+				? `${relativeDir}/${entry.name}`
+				: entry.name;
+			if (ignoreMatcher.ignores(relative, entry.isDirectory())) continue;
+			const sourcePath = path.join(realRoot, fromPosix(relative));
+			const targetPath = path.join(sandboxRoot, fromPosix(relative));
+			if (entry.isDirectory()) {
+				await ensureDir(targetPath);
+				await walk(relative);
+				await chmod(targetPath, (await lstat(sourcePath)).mode & MODE_MASK);
+				continue;
+			}
+			if (!entry.isFile() && !entry.isSymbolicLink()) continue;
+			if (skipExisting && (await lstat(targetPath).catch(() => undefined))) {
+				continue;
+			}
+			const stats = await lstat(sourcePath);
+			await copyEntry(sourcePath, targetPath, copyMode);
+			await lutimes(targetPath, stats.atime, stats.mtime);
+		}
+	};
+	await walk("");
+}
+
+export async function readSandboxMeta(
 	sandboxRoot: string,
 ): Promise<SandboxMeta | null> {
 	try {
@@ -78,7 +176,7 @@ async function readSandboxMeta(
 		return parsed;
 	} catch (error) {
 		const err = error as NodeJS.ErrnoException;
-		if (err.code === "ENOENT") return null;
+		if (err.code === "ENOENT" || error instanceof SyntaxError) return null;
 		throw error;
 	}
 }
@@ -87,95 +185,144 @@ async function writeSandboxMeta(
 	sandboxRoot: string,
 	meta: SandboxMeta,
 ): Promise<void> {
-	await writeFile(
+	await writeFileAtomic(
 		path.join(sandboxRoot, META_FILENAME),
 		JSON.stringify(meta, null, 2),
-		"utf-8",
 	);
 }
 
+// Clones the project with reflinks where the filesystem supports them, and
+// otherwise starts from an empty lazy sandbox. A partially materialized lazy
+// sandbox is never reused: starting it over costs nothing. Hardlinks are no
+// fallback: a command writing a file in place would change the workspace
+// copy too, before anything could snapshot it.
 export async function prepareSandbox(
 	realRoot: string,
 	sandboxRoot: string,
-	ignoreMatcher: Ignore,
+	ignoreMatcher: IgnoreMatcher,
 	reuseExisting: boolean,
-): Promise<{ reused: boolean }> {
-	let reused = false;
+): Promise<{
+	reused: boolean;
+	strategy: SandboxStrategy;
+	materialized: boolean;
+}> {
 	if (reuseExisting) {
 		const meta = await readSandboxMeta(sandboxRoot);
-		if (meta?.realRoot === realRoot) {
+		if (meta?.realRoot === realRoot && meta.materialized !== false) {
 			try {
 				await access(sandboxRoot, constants.R_OK | constants.W_OK);
-				reused = true;
+				return {
+					reused: true,
+					strategy: meta.strategy ?? "copy",
+					materialized: true,
+				};
 			} catch {
 				// fall through
 			}
 		}
 	}
 
-	if (reused) {
-		return { reused: true };
-	}
-
 	await rm(sandboxRoot, { recursive: true, force: true });
 	await ensureDir(sandboxRoot);
-	await cp(realRoot, sandboxRoot, {
-		recursive: true,
-		dereference: false,
-		preserveTimestamps: true,
-		filter: (src) => {
-			const relative = toPosix(path.relative(realRoot, src));
-			if (!relative) return true;
-			return (
-				!ignoreMatcher.ignores(relative) &&
-				!ignoreMatcher.ignores(`${relative}/`)
-			);
-		},
-	});
-	await writeSandboxMeta(sandboxRoot, { realRoot });
-	return { reused: false };
+	let strategy: SandboxStrategy = "reflink";
+	try {
+		await copyTree(
+			realRoot,
+			sandboxRoot,
+			ignoreMatcher,
+			constants.COPYFILE_FICLONE_FORCE,
+		);
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (!REFLINK_UNSUPPORTED.has(err.code ?? "")) throw error;
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await ensureDir(sandboxRoot);
+		strategy = "lazy";
+	}
+	const materialized = strategy !== "lazy";
+	await writeSandboxMeta(sandboxRoot, { realRoot, strategy, materialized });
+	return { reused: false, strategy, materialized };
+}
+
+// Caps how many filesystem calls a scan has in flight. A finished task hands
+// its slot straight to the next waiting one.
+function createLimiter(limit: number) {
+	let active = 0;
+	const waiting: (() => void)[] = [];
+	return async <T>(task: () => Promise<T>): Promise<T> => {
+		if (active < limit) {
+			active += 1;
+		} else {
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+		try {
+			return await task();
+		} finally {
+			const next = waiting.shift();
+			if (next) next();
+			else active -= 1;
+		}
+	};
 }
 
+// Directories are walked in parallel; no slot is held while recursing, so
+// nested calls cannot starve each other.
 async function scanDirectoryStats(
 	rootPath: string,
-	ignoreMatcher: Ignore,
+	ignoreMatcher: IgnoreMatcher,
+	startDir = "",
 ): Promise<Map<string, SandboxEntryStats>> {
 	const stats = new Map<string, SandboxEntryStats>();
+	const limit = createLimiter(SCAN_CONCURRENCY);
 
-	const walk = async (dirPath: string): Promise<void> => {
-		const entries = await readdir(dirPath, { withFileTypes: true });
-		for (const entry of entries) {
-			const absolutePath = path.join(dirPath, entry.name);
-			const relative = toPosix(path.relative(rootPath, absolutePath));
-
-			if (entry.isDirectory()) {
-				if (shouldIgnore(ignoreMatcher, relative, true)) {
-					continue;
+	const walk = async (relativeDir: string): Promise<void> => {
+		const entries = await limit(() =>
+			readdir(path.join(rootPath, fromPosix(relativeDir)), {
+				withFileTypes: true,
+			}),
+		);
+		await ignoreMatcher.prepare(relativeDir);
+		await Promise.all(
+			entries.map(async (entry) => {
+				const relative = relativeDir
+					? `${relativeDir}/${entry.name}`
+					: entry.name;
+				const absolutePath = path.join(rootPath, fromPosix(relative));
+
+				if (entry.isDirectory()) {
+					if (ignoreMatcher.ignores(relative, true)) return;
+					// Directory mtimes move with their contents, so only presence counts.
+					const dirStats = await limit(() => lstat(absolutePath));
+					stats.set(relative, {
+						size: 0,
+						mtimeMs: 0,
+						mode: dirStats.mode & MODE_MASK,
+						directory: true,
+					});
+					await walk(relative);
+					return;
 				}
-				await walk(absolutePath);
-				continue;
-			}
-
-			if (shouldIgnore(ignoreMatcher, relative, false)) {
-				continue;
-			}
 
-			const fileStats = await stat(absolutePath);
-			if (!fileStats.isFile() && !fileStats.isSymbolicLink()) {
-				continue;
-			}
-
-			stats.set(relative, { size: fileStats.size, mtimeMs: fileStats.mtimeMs });
-		}
+				if (ignoreMatcher.ignores(relative, false)) return;
+				const fileStats = await limit(() => lstat(absolutePath));
+				if (!fileStats.isFile() && !fileStats.isSymbolicLink()) return;
+				stats.set(relative, {
+					size: fileStats.size,
+					mtimeMs: fileStats.mtimeMs,
+					mode: fileStats.mode & MODE_MASK,
+					ctimeMs: fileStats.ctimeMs,
+				});
+			}),
+		);
 	};
 
-	await walk(rootPath);
+	await walk(startDir);
 	return stats;
 }
 
 export async function scanSandboxStats(
 	sandboxRoot: string,
-	ignoreMatcher: Ignore,
+	ignoreMatcher: IgnoreMatcher,
 ): Promise<Map<string, SandboxEntryStats>> {
 	return scanDirectoryStats(sandboxRoot, ignoreMatcher);
 }
@@ -184,15 +331,16 @@ export async function updateSandboxStatsForFile(
 	sandboxRoot: string,
 	stats: Map<string, SandboxEntryStats>,
 	relativePath: string,
-	ignoreMatcher: Ignore,
+	ignoreMatcher: IgnoreMatcher,
 ): Promise<void> {
-	if (shouldIgnore(ignoreMatcher, relativePath, false)) {
+	await ignoreMatcher.prepare(getParentPaths(relativePath).at(-1) ?? "");
+	if (ignoreMatcher.ignores(relativePath, false)) {
 		stats.delete(relativePath);
 		return;
 	}
 	const absolutePath = path.join(sandboxRoot, fromPosix(relativePath));
 	try {
-		const fileStats = await stat(absolutePath);
+		const fileStats = await lstat(absolutePath);
 		if (!fileStats.isFile() && !fileStats.isSymbolicLink()) {
 			stats.delete(relativePath);
 			return;
@@ -200,38 +348,167 @@ export async function updateSandboxStatsForFile(
 		stats.set(relativePath, {
 			size: fileStats.size,
 			mtimeMs: fileStats.mtimeMs,
+			mode: fileStats.mode & MODE_MASK,
+			ctimeMs: fileStats.ctimeMs,
 		});
 	} catch {
 		stats.delete(relativePath);
 	}
 }
 
+// The stats after the given paths changed. A renamed or freshly created
+// directory is reported as one path, so directories are rescanned whole and
+// their old entries dropped.
+export async function applySandboxChanges(
+	sandboxRoot: string,
+	previous: Map<string, SandboxEntryStats>,
+	changed: Iterable<string>,
+	ignoreMatcher: IgnoreMatcher,
+): Promise<Map<string, SandboxEntryStats>> {
+	const stats = new Map(previous);
+	const directories = new Set<string>();
+	const present: string[] = [];
+	for (const relativePath of changed) {
+		if (stats.get(relativePath)?.directory) directories.add(relativePath);
+		stats.delete(relativePath);
+		const current = await lstat(
+			path.join(sandboxRoot, fromPosix(relativePath)),
+		).catch(() => undefined);
+		if (!current) continue;
+		const isDir = current.isDirectory();
+		if (isDir) directories.add(relativePath);
+		await ignoreMatcher.prepare(getParentPaths(relativePath).at(-1) ?? "");
+		if (ignoreMatcher.ignores(relativePath, isDir)) continue;
+		if (!isDir && !current.isFile() && !current.isSymbolicLink()) continue;
+		stats.set(relativePath, {
+			size: isDir ? 0 : current.size,
+			mtimeMs: isDir ? 0 : current.mtimeMs,
+			mode: current.mode & MODE_MASK,
+			...(isDir ? { directory: true } : { ctimeMs: current.ctimeMs }),
+		});
+		present.push(relativePath);
+	}
+
+	for (const relativePath of stats.keys()) {
+		if (getParentPaths(relativePath).some((dir) => directories.has(dir))) {
+			stats.delete(relativePath);
+		}
+	}
+	for (const relativePath of present) {
+		if (!stats.get(relativePath)?.directory) continue;
+		const nested = await scanDirectoryStats(
+			sandboxRoot,
+			ignoreMatcher,
+			relativePath,
+		);
+		for (const [nestedPath, entry] of nested) stats.set(nestedPath, entry);
+	}
+	// Parents created in the same command may not have been reported.
+	for (const relativePath of present) {
+		for (const parentPath of getParentPaths(relativePath)) {
+			if (stats.has(parentPath)) continue;
+			const parent = await lstat(
+				path.join(sandboxRoot, fromPosix(parentPath)),
+			).catch(() => undefined);
+			if (!parent?.isDirectory()) break;
+			stats.set(parentPath, {
+				size: 0,
+				mtimeMs: 0,
+				mode: parent.mode & MODE_MASK,
+				directory: true,
+			});
+		}
+	}
+	return stats;
+}
+
+async function hashSandboxFile(
+	absolutePath: string,
+): Promise<string | undefined> {
+	try {
+		const stats = await lstat(absolutePath);
+		return hashBuffer(
+			stats.isSymbolicLink()
+				? Buffer.from(await readlink(absolutePath))
+				: await readFile(absolutePath),
+		);
+	} catch {
+		return undefined;
+	}
+}
+
+// Stats only vouch for the old fingerprint when nothing about the file moved
+// since, including its ctime, which touch -r and cp -p cannot set back.
+function canReuseHash(
+	previous: SandboxEntryStats | undefined,
+	entry: SandboxEntryStats,
+): previous is SandboxEntryStats & { hash: string } {
+	return (
+		previous?.hash !== undefined &&
+		!previous.racy &&
+		previous.size === entry.size &&
+		previous.mtimeMs === entry.mtimeMs &&
+		previous.ctimeMs === entry.ctimeMs &&
+		previous.mode === entry.mode
+	);
+}
+
+export interface SandboxStatsDiff {
+	added: string[];
+	removed: string[];
+	changed: string[];
+	addedDirectories: string[];
+	removedDirectories: string[];
+}
+
+// Directories are reported parents first when added and children first when
+// removed, which is the order they can be created and deleted in.
 export function diffSandboxStats(
 	before: Map<string, SandboxEntryStats>,
 	after: Map<string, SandboxEntryStats>,
-): { added: string[]; removed: string[]; changed: string[] } {
+): SandboxStatsDiff {
 	const added: string[] = [];
 	const removed: string[] = [];
 	const changed: string[] = [];
+	const addedDirectories: string[] = [];
+	const removedDirectories: string[] = [];
 
 	for (const [filePath, entry] of after) {
 		const previous = before.get(filePath);
-		if (!previous) {
+		const replaced = previous && !previous.directory !== !entry.directory;
+		if (entry.directory) {
+			if (!previous || replaced) addedDirectories.push(filePath);
+			continue;
+		}
+		if (!previous || replaced) {
 			added.push(filePath);
 			continue;
 		}
-		if (previous.size !== entry.size || previous.mtimeMs !== entry.mtimeMs) {
+		if (
+			previous.size !== entry.size ||
+			previous.mtimeMs !== entry.mtimeMs ||
+			previous.mode !== entry.mode ||
+			(previous.hash !== undefined &&
+				entry.hash !== undefined &&
+				previous.hash !== entry.hash)
+		) {
 			changed.push(filePath);
 		}
 	}
 
-	for (const filePath of before.keys()) {
-		if (!after.has(filePath)) {
+	for (const [filePath, entry] of before) {
+		const next = after.get(filePath);
+		if (next && !next.directory === !entry.directory) continue;
+		if (entry.directory) {
+			removedDirectories.push(filePath);
+		} else {
 			removed.push(filePath);
 		}
 	}
 
-	return { added, removed, changed };
+	addedDirectories.sort(comparePathDepth);
+	removedDirectories.sort((left, right) => comparePathDepth(right, left));
+	return { added, removed, changed, addedDirectories, removedDirectories };
 }
 
 async function syncFileToSandbox(
@@ -241,8 +518,7 @@ async function syncFileToSandbox(
 ): Promise<void> {
 	const sourcePath = path.join(realRoot, fromPosix(relativePath));
 	const targetPath = path.join(sandboxRoot, fromPosix(relativePath));
-	await ensureDir(path.dirname(targetPath));
-	await copyFile(sourcePath, targetPath);
+	await copyEntry(sourcePath, targetPath);
 }
 
 export async function syncFileFromSandbox(
@@ -252,8 +528,32 @@ export async function syncFileFromSandbox(
 ): Promise<void> {
 	const sourcePath = path.join(sandboxRoot, fromPosix(relativePath));
 	const targetPath = path.join(realRoot, fromPosix(relativePath));
-	await ensureDir(path.dirname(targetPath));
-	await copyFile(sourcePath, targetPath);
+	await copyEntry(sourcePath, targetPath);
+}
+
+export async function syncDirectoryFromSandbox(
+	relativePath: string,
+	sandboxRoot: string,
+	realRoot: string,
+): Promise<void> {
+	const sourcePath = path.join(sandboxRoot, fromPosix(relativePath));
+	const targetPath = path.join(realRoot, fromPosix(relativePath));
+	const sourceStats = await lstat(sourcePath);
+	await ensureDir(targetPath);
+	await chmod(targetPath, sourceStats.mode & MODE_MASK);
+}
+
+// Only empty directories are removed; anything left inside (ignored files,
+// files created outside pi) keeps its directory alive.
+export async function removeEmptyDirectory(dirPath: string): Promise<void> {
+	try {
+		await rmdir(dirPath);
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code !== "ENOENT" && err.code !== "ENOTEMPTY") {
+			throw error;
+		}
+	}
 }
 
 export async function removeFileFromDisk(
@@ -272,14 +572,34 @@ export async function removeFileFromSandbox(
 	await rm(targetPath, { force: true });
 }
 
+// Creates the parents a lazy sandbox has not needed yet with their real modes,
+// so base snapshots see the same directories as the workspace.
+async function ensureSandboxParents(
+	relativePath: string,
+	realRoot: string,
+	sandboxRoot: string,
+): Promise<void> {
+	for (const parentPath of getParentPaths(relativePath)) {
+		const targetPath = path.join(sandboxRoot, fromPosix(parentPath));
+		if (await lstat(targetPath).catch(() => undefined)) continue;
+		const sourceStats = await lstat(
+			path.join(realRoot, fromPosix(parentPath)),
+		).catch(() => undefined);
+		if (!sourceStats?.isDirectory()) return;
+		await mkdir(targetPath);
+		await chmod(targetPath, sourceStats.mode & MODE_MASK);
+	}
+}
+
 export async function ensureSandboxFile(
 	relativePath: string,
 	realRoot: string,
 	sandboxRoot: string,
 ): Promise<void> {
+	await ensureSandboxParents(relativePath, realRoot, sandboxRoot);
 	const sandboxPath = path.join(sandboxRoot, fromPosix(relativePath));
 	try {
-		await access(sandboxPath, constants.R_OK);
+		await lstat(sandboxPath);
 		return;
 	} catch {
 		// Continue to populate from disk if available.
@@ -287,10 +607,9 @@ export async function ensureSandboxFile(
 
 	const realPath = path.join(realRoot, fromPosix(relativePath));
 	try {
-		const fileStats = await stat(realPath);
+		const fileStats = await lstat(realPath);
 		if (!fileStats.isFile() && !fileStats.isSymbolicLink()) return;
-		await ensureDir(path.dirname(sandboxPath));
-		await copyFile(realPath, sandboxPath);
+		await copyEntry(realPath, sandboxPath);
 	} catch (error) {
 		const err = error as NodeJS.ErrnoException;
 		if (err.code !== "ENOENT") {
@@ -301,12 +620,19 @@ export async function ensureSandboxFile(
 
 export class SandboxState {
 	private stats: Map<string, SandboxEntryStats> = new Map();
-	private ignoreMatcher: Ignore | null = null;
+	private ignoreMatcher: IgnoreMatcher | null = null;
+	private strategy: SandboxStrategy = "copy";
+	private materializing: Promise<void> | null = null;
+	private materialized = true;
+	private watcher: SandboxWatcher | null = null;
 
 	constructor(
 		public readonly realRoot: string,
 		public readonly sandboxRoot: string,
 		private readonly onProgress?: (progress: SandboxProgress) => void,
+		private readonly ignorePatterns: string[] = DEFAULT_IGNORES,
+		// Set to verify files up to this size by content, not only by stats.
+		private readonly hashLimit?: number,
 	) {}
 
 	private report(progress: SandboxProgress): void {
@@ -314,14 +640,45 @@ export class SandboxState {
 	}
 
 	async initialize(): Promise<void> {
-		this.ignoreMatcher = await loadIgnoreMatcher(this.realRoot);
+		await this.prepare();
+		const watcher = new SandboxWatcher(this.sandboxRoot);
+		if (watcher.start()) {
+			this.watcher = watcher;
+		}
+	}
+
+	close(): void {
+		this.watcher?.close();
+		this.watcher = null;
+	}
+
+	private async prepare(): Promise<void> {
+		this.ignoreMatcher = await loadIgnoreMatcher(
+			this.realRoot,
+			this.ignorePatterns,
+		);
 		this.report({ stage: "prepare", message: "Preparing sandbox..." });
-		const { reused } = await prepareSandbox(
+		const { reused, strategy, materialized } = await prepareSandbox(
 			this.realRoot,
 			this.sandboxRoot,
 			this.ignoreMatcher,
 			true,
 		);
+		this.strategy = strategy;
+		this.materialized = materialized;
+
+		if (!materialized) {
+			this.stats = new Map();
+			this.report({
+				stage: "done",
+				message:
+					"Sandbox ready (no reflink support: files are copied when first used, and the first bash call copies the whole project).",
+				current: 2,
+				total: 2,
+				strategy,
+			});
+			return;
+		}
 
 		if (!reused) {
 			this.report({
@@ -333,9 +690,10 @@ export class SandboxState {
 			this.stats = await scanSandboxStats(this.sandboxRoot, this.ignoreMatcher);
 			this.report({
 				stage: "done",
-				message: "Sandbox ready.",
+				message: "Sandbox ready (cloned with reflinks).",
 				current: 2,
 				total: 2,
+				strategy,
 			});
 			return;
 		}
@@ -362,6 +720,29 @@ export class SandboxState {
 		});
 		const diff = diffSandboxStats(sandboxStats, realStats);
 
+		for (const relativePath of diff.removed) {
+			await removeFileFromSandbox(relativePath, this.sandboxRoot);
+			sandboxStats.delete(relativePath);
+		}
+
+		for (const relativePath of diff.removedDirectories) {
+			await rm(path.join(this.sandboxRoot, fromPosix(relativePath)), {
+				recursive: true,
+				force: true,
+			});
+			sandboxStats.delete(relativePath);
+		}
+
+		for (const relativePath of diff.addedDirectories) {
+			const stats = realStats.get(relativePath);
+			const targetPath = path.join(this.sandboxRoot, fromPosix(relativePath));
+			await ensureDir(targetPath);
+			if (stats?.mode !== undefined) {
+				await chmod(targetPath, stats.mode);
+			}
+			if (stats) sandboxStats.set(relativePath, stats);
+		}
+
 		for (const relativePath of diff.added) {
 			await syncFileToSandbox(relativePath, this.realRoot, this.sandboxRoot);
 			await updateSandboxStatsForFile(
@@ -382,11 +763,6 @@ export class SandboxState {
 			);
 		}
 
-		for (const relativePath of diff.removed) {
-			await removeFileFromSandbox(relativePath, this.sandboxRoot);
-			sandboxStats.delete(relativePath);
-		}
-
 		this.stats = sandboxStats;
 		this.report({
 			stage: "done",
@@ -400,12 +776,117 @@ export class SandboxState {
 		return this.stats;
 	}
 
+	getStrategy(): SandboxStrategy {
+		return this.strategy;
+	}
+
+	// True while a lazy sandbox holds only the files tools have touched.
+	isPartial(): boolean {
+		return !this.materialized;
+	}
+
+	// Copies whatever a lazy sandbox is still missing, for commands that need
+	// the whole tree. Files already in the sandbox match the workspace, since
+	// every change is synced back, so they are kept.
+	async materialize(): Promise<void> {
+		if (this.materialized) return;
+		this.materializing ??= this.copyRemainingFiles().finally(() => {
+			this.materializing = null;
+		});
+		await this.materializing;
+	}
+
+	private async copyRemainingFiles(): Promise<void> {
+		this.report({
+			stage: "sync",
+			message:
+				"Copying the rest of the project into the sandbox for bash (no reflink support, so this is a full copy)...",
+			strategy: this.strategy,
+		});
+		await copyTree(
+			this.realRoot,
+			this.sandboxRoot,
+			this.getIgnoreMatcher(),
+			constants.COPYFILE_FICLONE,
+			true,
+		);
+		await writeSandboxMeta(this.sandboxRoot, {
+			realRoot: this.realRoot,
+			strategy: this.strategy,
+			materialized: true,
+		});
+		this.materialized = true;
+		this.stats = await this.rescan();
+		this.report({ stage: "done", message: "Sandbox ready." });
+	}
+
 	setStats(stats: Map<string, SandboxEntryStats>): void {
 		this.stats = stats;
 	}
 
 	async rescan(): Promise<Map<string, SandboxEntryStats>> {
-		return scanSandboxStats(this.sandboxRoot, this.getIgnoreMatcher());
+		return this.fingerprint(
+			await scanSandboxStats(this.sandboxRoot, this.getIgnoreMatcher()),
+		);
+	}
+
+	// Gives every small file a content hash. Hashes are carried over from the
+	// current stats where those can be trusted; anything suspicious is read
+	// again, so a change that kept size and mtime still differs by hash.
+	private async fingerprint(
+		stats: Map<string, SandboxEntryStats>,
+		paths: Iterable<string> = stats.keys(),
+	): Promise<Map<string, SandboxEntryStats>> {
+		const hashLimit = this.hashLimit;
+		if (hashLimit === undefined) return stats;
+		const limit = createLimiter(SCAN_CONCURRENCY);
+		const now = Date.now();
+		await Promise.all(
+			[...paths].map(async (relativePath) => {
+				const entry = stats.get(relativePath);
+				if (!entry || entry.directory || entry.size > hashLimit) return;
+				const previous = this.stats.get(relativePath);
+				const hash = canReuseHash(previous, entry)
+					? previous.hash
+					: await limit(() =>
+							hashSandboxFile(
+								path.join(this.sandboxRoot, fromPosix(relativePath)),
+							),
+						);
+				const changedAt = Math.max(entry.mtimeMs, entry.ctimeMs ?? 0);
+				// Entries may be shared with the stats a diff is taken against.
+				const { hash: _hash, racy: _racy, ...rest } = entry;
+				stats.set(relativePath, {
+					...rest,
+					...(hash !== undefined && { hash }),
+					...(now - changedAt < RACY_WINDOW_MS && { racy: true }),
+				});
+			}),
+		);
+		return stats;
+	}
+
+	// Starts recording the paths the next command touches.
+	beginCommand(): void {
+		this.watcher?.reset();
+	}
+
+	// The stats after a command. Only the paths the watcher saw are looked at
+	// again; without a watcher, or after a large change, the sandbox is
+	// rescanned.
+	async scanChanges(): Promise<Map<string, SandboxEntryStats>> {
+		const changed = await this.watcher?.flush();
+		if (!changed || changed.size > MAX_WATCHED_PATHS) {
+			return this.rescan();
+		}
+		return this.fingerprint(
+			await applySandboxChanges(
+				this.sandboxRoot,
+				this.stats,
+				changed,
+				this.getIgnoreMatcher(),
+			),
+		);
 	}
 
 	async updateFile(relativePath: string): Promise<void> {
@@ -415,13 +896,27 @@ export class SandboxState {
 			relativePath,
 			this.getIgnoreMatcher(),
 		);
+		await this.fingerprint(this.stats, [relativePath]);
 	}
 
 	isIgnored(relativePath: string): boolean {
-		return shouldIgnore(this.getIgnoreMatcher(), relativePath, false);
+		return this.getIgnoreMatcher().ignores(relativePath, false);
+	}
+
+	// Read-only sessions never set up the sandbox, so the rules are loaded on
+	// demand there.
+	async explainPath(
+		relativePath: string,
+		isDir: boolean,
+	): Promise<IgnoreExplanation> {
+		const matcher =
+			this.ignoreMatcher ??
+			(await loadIgnoreMatcher(this.realRoot, this.ignorePatterns));
+		await matcher.prepare(getParentPaths(relativePath).at(-1) ?? "");
+		return matcher.explain(relativePath, isDir);
 	}
 
-	private getIgnoreMatcher(): Ignore {
+	private getIgnoreMatcher(): IgnoreMatcher {
 		if (!this.ignoreMatcher) {
 			throw new Error("SandboxState not initialized");
 		}
@@ -0,0 +1,229 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import {
+	DEFAULT_MAX_BYTES,
+	DEFAULT_MAX_LINES,
+} from "@mariozechner/pi-coding-agent";
+import { type Static, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { getCacheBaseDir } from "./cache.js";
+import { BLOB_CODECS } from "./compression.js";
+import { DEFAULT_DIFF_CONTEXT_LINES } from "./diff-stack.js";
+import { parseSize } from "./gc.js";
+import { LOCK_MODES, type LockMode } from "./lock.js";
+import { resolveUserPath } from "./paths.js";
+import { parseRetentionPolicy } from "./retention.js";
+import { DEFAULT_HASH_LIMIT, DEFAULT_IGNORES } from "./sandbox.js";
+import { CONFLICT_RESOLUTIONS } from "./tracker.js";
+import type { BlobCodec, ConflictResolution } from "./types.js";
+
+const SETTINGS_FILENAME = "undo-redo.json";
+
+const sizeSchema = Type.Union([Type.Integer({ minimum: 0 }), Type.String()]);
+
+export const settingsSchema = Type.Object(
+	{
+		cacheDir: Type.Optional(Type.String({ minLength: 1 })),
+		ignore: Type.Optional(Type.Array(Type.String())),
+		diffContextLines: Type.Optional(Type.Integer({ minimum: 0 })),
+		maxOutputLines: Type.Optional(Type.Integer({ minimum: 1 })),
+		maxOutputBytes: Type.Optional(sizeSchema),
+		gcThreshold: Type.Optional(sizeSchema),
+		retention: Type.Optional(Type.String()),
+		compression: Type.Optional(
+			Type.Union(BLOB_CODECS.map((codec) => Type.Literal(codec))),
+		),
+		sharedBlobs: Type.Optional(Type.Boolean()),
+		verifyHashes: Type.Optional(Type.Boolean()),
+		verifyHashesMaxSize: Type.Optional(sizeSchema),
+		headlessConflicts: Type.Optional(
+			Type.Union(CONFLICT_RESOLUTIONS.map((choice) => Type.Literal(choice))),
+		),
+		lock: Type.Optional(
+			Type.Union(LOCK_MODES.map((mode) => Type.Literal(mode))),
+		),
+	},
+	{ additionalProperties: false },
+);
+
+export type SettingsFile = Static<typeof settingsSchema>;
+
+export interface UndoRedoSettings {
+	cacheDir: string;
+	ignore: string[];
+	diffContextLines: number;
+	maxOutputLines: number;
+	maxOutputBytes: number;
+	gcThreshold?: number;
+	retention?: string;
+	compression?: BlobCodec;
+	sharedBlobs: boolean;
+	verifyHashes: boolean;
+	verifyHashesMaxSize: number;
+	headlessConflicts: ConflictResolution;
+	lock?: LockMode;
+}
+
+export interface SettingsLoadResult {
+	settings: UndoRedoSettings;
+	sources: string[];
+	warnings: string[];
+}
+
+export function getGlobalSettingsPath(): string {
+	return path.join(homedir(), ".pi", "agent", SETTINGS_FILENAME);
+}
+
+export function getProjectSettingsPath(projectRoot: string): string {
+	return path.join(projectRoot, ".pi", SETTINGS_FILENAME);
+}
+
+function toBytes(value: number | string | undefined): number | undefined {
+	if (value === undefined) return undefined;
+	return typeof value === "number" ? value : parseSize(value);
+}
+
+function validateSettings(
+	raw: unknown,
+	filePath: string,
+	warnings: string[],
+): SettingsFile | undefined {
+	if (Value.Check(settingsSchema, raw)) return raw;
+	const problems = [...Value.Errors(settingsSchema, raw)]
+		.slice(0, 3)
+		.map((error) => `${error.path || "/"} ${error.message}`);
+	warnings.push(
+		`Ignoring undo/redo settings in ${filePath}: ${problems.join("; ")}`,
+	);
+	return undefined;
+}
+
+function checkValues(
+	file: SettingsFile,
+	filePath: string,
+	warnings: string[],
+): SettingsFile {
+	const checked = { ...file };
+	for (const key of [
+		"maxOutputBytes",
+		"gcThreshold",
+		"verifyHashesMaxSize",
+	] as const) {
+		if (checked[key] !== undefined && toBytes(checked[key]) === undefined) {
+			warnings.push(`Invalid ${key} in ${filePath}: ${checked[key]}`);
+			delete checked[key];
+		}
+	}
+	if (checked.retention !== undefined) {
+		try {
+			parseRetentionPolicy(checked.retention);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			warnings.push(`Invalid retention in ${filePath}: ${message}`);
+			delete checked.retention;
+		}
+	}
+	return checked;
+}
+
+export async function readSettingsFile(
+	filePath: string,
+	relativeTo: string,
+	warnings: string[],
+): Promise<SettingsFile | undefined> {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(await readFile(filePath, "utf-8"));
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		if (err.code === "ENOENT") return undefined;
+		if (error instanceof SyntaxError) {
+			warnings.push(
+				`Ignoring undo/redo settings in ${filePath}: ${error.message}`,
+			);
+			return undefined;
+		}
+		throw error;
+	}
+
+	const file = validateSettings(raw, filePath, warnings);
+	if (!file) return undefined;
+	const checked = checkValues(file, filePath, warnings);
+	if (checked.cacheDir) {
+		checked.cacheDir = resolveUserPath(checked.cacheDir, relativeTo);
+	}
+	return checked;
+}
+
+export function resolveSettings(layers: SettingsFile[]): UndoRedoSettings {
+	const merged: SettingsFile = Object.assign({}, ...layers);
+	return {
+		cacheDir: merged.cacheDir ?? getCacheBaseDir(),
+		// Every layer adds to the built-in list; `!pattern` takes an entry back out.
+		ignore: [
+			...DEFAULT_IGNORES,
+			...layers.flatMap((layer) => layer.ignore ?? []),
+		],
+		diffContextLines: merged.diffContextLines ?? DEFAULT_DIFF_CONTEXT_LINES,
+		maxOutputLines: merged.maxOutputLines ?? DEFAULT_MAX_LINES,
+		maxOutputBytes: toBytes(merged.maxOutputBytes) ?? DEFAULT_MAX_BYTES,
+		gcThreshold: toBytes(merged.gcThreshold),
+		retention: merged.retention,
+		compression: merged.compression,
+		sharedBlobs: merged.sharedBlobs ?? false,
+		verifyHashes: merged.verifyHashes ?? false,
+		verifyHashesMaxSize:
+			toBytes(merged.verifyHashesMaxSize) ?? DEFAULT_HASH_LIMIT,
+		headlessConflicts: merged.headlessConflicts ?? "skip",
+		lock: merged.lock,
+	};
+}
+
+// Keys a checkout must not control: they decide which directories get
+// deleted, whether files edited outside pi are overwritten, and how other
+// sessions' caches are shared and locked.
+const GLOBAL_ONLY_KEYS = [
+	"cacheDir",
+	"retention",
+	"headlessConflicts",
+	"sharedBlobs",
+	"lock",
+] as const;
+
+// Project settings override global ones key by key, except for the
+// global-only keys.
+export async function loadSettings(
+	projectRoot: string,
+	options: { globalPath?: string } = {},
+): Promise<SettingsLoadResult> {
+	const warnings: string[] = [];
+	const candidates = [
+		{
+			filePath: options.globalPath ?? getGlobalSettingsPath(),
+			relativeTo: homedir(),
+			trusted: true,
+		},
+		{
+			filePath: getProjectSettingsPath(projectRoot),
+			relativeTo: projectRoot,
+			trusted: false,
+		},
+	];
+	const layers: SettingsFile[] = [];
+	const sources: string[] = [];
+	for (const { filePath, relativeTo, trusted } of candidates) {
+		const file = await readSettingsFile(filePath, relativeTo, warnings);
+		if (!file) continue;
+		for (const key of trusted ? [] : GLOBAL_ONLY_KEYS) {
+			if (file[key] === undefined) continue;
+			warnings.push(
+				`Ignoring ${key} in ${filePath}: it can only be set in ${getGlobalSettingsPath()}`,
+			);
+			delete file[key];
+		}
+		layers.push(file);
+		sources.push(filePath);
+	}
+	return { settings: resolveSettings(layers), sources, warnings };
+}
@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { promisify } from "node:util";
+import { gzip } from "node:zlib";
+import { exportBundle, importBundle } from "../bundle.js";
+import { createCache } from "../cache.js";
+import { SnapshotTracker } from "../tracker.js";
+
+async function createTempDir(prefix: string): Promise<string> {
+	return mkdtemp(path.join(tmpdir(), prefix));
+}
+
+async function writeRawBundle(
+	bundlePath: string,
+	cacheVersion: number,
+	base: Record<string, unknown>,
+	leaves: Record<string, Record<string, unknown>>,
+): Promise<void> {
+	const records: unknown[] = [
+		{
+			format: "pi-undo-redo-bundle",
+			version: 1,
+			cacheVersion,
+			createdAt: Date.now(),
+			source: { sessionId: "x", realRoot: "/x" },
+		},
+		{ base },
+		...Object.entries(leaves).map(([leaf, files]) => ({ leaf, files })),
+	];
+	const text = records.map((record) => `${JSON.stringify(record)}\n`).join("");
+	await writeFile(bundlePath, await promisify(gzip)(text));
+}
+
+test("bundles carry history to another checkout and session", async () => {
+	const root = await createTempDir("undo-redo-bundle-");
+	const realRoot = path.join(root, "original");
+	const sandboxRoot = path.join(root, "sandbox");
+	const otherRoot = path.join(root, "checkout");
+	const bundlePath = path.join(root, "history.undo-redo.gz");
+	const source = createCache("session-a", { baseDir: path.join(root, "a") });
+	const target = createCache("session-b", { baseDir: path.join(root, "b") });
+	// Spans many decompressed chunks on import.
+	const leafContent = "leaf\n".repeat(100_000);
+
+	try {
+		await mkdir(realRoot);
+		await writeFile(path.join(realRoot, "note.txt"), "base", "utf-8");
+		await cp(realRoot, sandboxRoot, { recursive: true });
+		await cp(realRoot, otherRoot, { recursive: true });
+		await source.ensure();
+
+		const tracker = new SnapshotTracker(source, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		await tracker.ensureBaseFromSandbox("note.txt");
+		await writeFile(path.join(sandboxRoot, "note.txt"), leafContent, "utf-8");
+		await tracker.updateFromSandbox("note.txt");
+		await tracker.saveLeaf("leaf-1");
+
+		const exported = await exportBundle(source, bundlePath, {
+			sessionId: "session-a",
+			realRoot,
+		});
+		assert.equal(exported.leafCount, 1);
+		assert.equal(exported.blobCount, 2);
+
+		const imported = await importBundle(target, bundlePath);
+		assert.equal(imported.source.sessionId, "session-a");
+		assert.deepEqual(await target.listLeafIds(), ["leaf-1"]);
+
+		const otherTracker = new SnapshotTracker(target, otherRoot, otherRoot);
+		await otherTracker.loadBase();
+		await otherTracker.restoreLeaf("leaf-1", [otherRoot]);
+		assert.equal(
+			await readFile(path.join(otherRoot, "note.txt"), "utf-8"),
+			leafContent,
+		);
+
+		await writeFile(bundlePath, "not a bundle", "utf-8");
+		await assert.rejects(
+			importBundle(target, bundlePath),
+			/not an undo\/redo bundle/,
+		);
+		assert.deepEqual(await target.listLeafIds(), ["leaf-1"]);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("importBundle rejects paths outside the project root", async () => {
+	const root = await createTempDir("undo-redo-bundle-");
+	const bundlePath = path.join(root, "evil.undo-redo.gz");
+	const cache = createCache("session", { baseDir: root });
+	try {
+		await writeRawBundle(
+			bundlePath,
+			1,
+			{},
+			{ "leaf-1": { "../outside.txt": { exists: false } } },
+		);
+		await assert.rejects(importBundle(cache, bundlePath), /unsafe path/);
+		assert.deepEqual(await cache.listLeafIds(), []);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("importBundle rejects symlinks that escape the project", async () => {
+	const root = await createTempDir("undo-redo-bundle-");
+	const bundlePath = path.join(root, "evil.undo-redo.gz");
+	const cache = createCache("session", { baseDir: root });
+	const writeBundle = (leaf: Record<string, unknown>) =>
+		writeRawBundle(
+			bundlePath,
+			3,
+			{ docs: { exists: true, kind: "directory" } },
+			{ "leaf-1": leaf },
+		);
+	try {
+		await writeBundle({
+			"docs/home": { exists: true, kind: "symlink", target: "/home/user" },
+		});
+		await assert.rejects(importBundle(cache, bundlePath), /points outside/);
+		await writeBundle({
+			"docs/up": { exists: true, kind: "symlink", target: "../../etc" },
+		});
+		await assert.rejects(importBundle(cache, bundlePath), /points outside/);
+		// Each entry passes the path check, but the second one would be
+		// written through the first.
+		await writeBundle({
+			"docs/link": { exists: true, kind: "symlink", target: "." },
+			"docs/link/notes.txt": { exists: false },
+		});
+		await assert.rejects(importBundle(cache, bundlePath), /below the symlink/);
+		// Each target looks contained on its own, but through the first link
+		// the second one resolves to the parent of the project.
+		await writeBundle({
+			"a/b": { exists: true, kind: "symlink", target: ".." },
+			c: { exists: true, kind: "symlink", target: "a/b/../.." },
+		});
+		await assert.rejects(importBundle(cache, bundlePath), /points outside/);
+		assert.deepEqual(await cache.listLeafIds(), []);
+
+		await writeBundle({
+			"docs/latest": { exists: true, kind: "symlink", target: "../README.md" },
+			"docs/self": { exists: true, kind: "symlink", target: "self" },
+			current: { exists: true, kind: "symlink", target: "docs/../docs/latest" },
+		});
+		const summary = await importBundle(cache, bundlePath);
+		assert.equal(summary.leafCount, 1);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
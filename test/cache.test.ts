@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { checkCacheIntegrity, createCache, hashBuffer } from "../cache.js";
+
+test("checkCacheIntegrity reports corrupt, missing and orphan blobs", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-fsck-"));
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		const good = Buffer.from("good");
+		const truncated = Buffer.from("truncated content");
+		const orphan = Buffer.from("orphan");
+		const missingHash = hashBuffer(Buffer.from("missing"));
+		await cache.writeBlob(hashBuffer(good), good);
+		await cache.writeBlob(hashBuffer(orphan), orphan);
+		await writeFile(
+			path.join(cache.blobsDir, hashBuffer(truncated)),
+			truncated.subarray(0, 5),
+		);
+
+		await cache.writeBase(
+			new Map([["a.txt", { exists: true, hash: hashBuffer(good), size: 4 }]]),
+		);
+		await cache.writeLeaf("healthy", new Map([["a.txt", { exists: false }]]));
+		await cache.writeLeaf(
+			"corrupt",
+			new Map([
+				["b.txt", { exists: true, hash: hashBuffer(truncated), size: 17 }],
+			]),
+		);
+		await cache.writeLeaf(
+			"missing",
+			new Map([["c.txt", { exists: true, hash: missingHash, size: 7 }]]),
+		);
+
+		const report = await checkCacheIntegrity(cache, { quarantine: true });
+		assert.equal(report.checkedBlobs, 3);
+		assert.deepEqual(report.corruptBlobs, [hashBuffer(truncated)]);
+		assert.deepEqual(report.missingBlobs, [missingHash]);
+		assert.deepEqual(report.orphanBlobs, [hashBuffer(orphan)]);
+		assert.deepEqual(report.quarantinedBlobs, [hashBuffer(truncated)]);
+		assert.deepEqual(report.unrestorableLeaves.sort(), ["corrupt", "missing"]);
+
+		assert.ok(
+			existsSync(path.join(cache.quarantineDir, hashBuffer(truncated))),
+		);
+		assert.equal(cache.hasBlob(hashBuffer(truncated)), false);
+		assert.deepEqual(
+			[...(await cache.readUnrestorableLeaves())],
+			["corrupt", "missing"],
+		);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("manifest reads fall back to the previous generation", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-atomic-"));
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		await cache.writeBase(new Map([["a.txt", { exists: false }]]));
+		await cache.writeBase(
+			new Map([
+				["a.txt", { exists: false }],
+				["b.txt", { exists: false }],
+			]),
+		);
+		assert.equal((await cache.readBase())?.size, 2);
+		assert.deepEqual((await readdir(cache.root)).sort(), [
+			"base.json",
+			"base.json.prev",
+			"blobs",
+			"leaves",
+		]);
+
+		await writeFile(cache.basePath, '{"version": 1, "files": {"a.t', "utf-8");
+		assert.equal((await cache.readBase())?.size, 1);
+
+		await rm(cache.basePath);
+		assert.equal((await cache.readBase())?.size, 1);
+
+		// A leaf left with only its previous generation is still listed.
+		await cache.writeLeaf("leaf-1", new Map([["a.txt", { exists: false }]]));
+		await cache.writeLeaf("leaf-1", new Map());
+		await rm(path.join(cache.leavesDir, "leaf-1.json"));
+		assert.deepEqual(await cache.listLeafIds(), ["leaf-1"]);
+		assert.equal((await cache.readLeaf("leaf-1"))?.size, 1);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("leaf manifests are stored as deltas on their parent leaf", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-delta-"));
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+	const readRaw = async (leafId: string) =>
+		JSON.parse(
+			await readFile(path.join(cache.leavesDir, `${leafId}.json`), "utf-8"),
+		);
+
+	try {
+		const first = new Map([
+			["a.txt", { exists: true, hash: "a1", size: 1 }],
+			["b.txt", { exists: true, hash: "b1", size: 1 }],
+		]);
+		const second = new Map([
+			["a.txt", { exists: true, hash: "a2", size: 1 }],
+			["c.txt", { exists: true, hash: "c1", size: 1 }],
+		]);
+		await cache.writeLeaf("leaf-1", first);
+		await cache.writeLeaf("leaf-2", second, { parentId: "leaf-1" });
+
+		const raw = await readRaw("leaf-2");
+		assert.equal(raw.parent, "leaf-1");
+		assert.deepEqual(raw.removed, ["b.txt"]);
+		assert.deepEqual(Object.keys(raw.files).sort(), ["a.txt", "c.txt"]);
+		assert.deepEqual(await cache.readLeaf("leaf-2"), second);
+
+		// Rewriting the parent turns its children into full manifests first.
+		await cache.writeLeaf("leaf-1", new Map());
+		assert.equal((await readRaw("leaf-2")).parent, undefined);
+		assert.deepEqual(await cache.readLeaf("leaf-2"), second);
+
+		// The parent's children are found through stored links, which caches
+		// written without them get rebuilt on first use.
+		const childrenDir = path.join(cache.leavesDir, "children");
+		await cache.writeLeaf("leaf-x", first);
+		await cache.writeLeaf("leaf-y", second, { parentId: "leaf-x" });
+		assert.deepEqual(
+			JSON.parse(
+				await readFile(path.join(childrenDir, "leaf-x.json"), "utf-8"),
+			),
+			{ children: ["leaf-y"] },
+		);
+		await rm(childrenDir, { recursive: true });
+		const reopened = createCache("session", { baseDir });
+		await reopened.writeLeaf("leaf-x", new Map());
+		assert.equal((await readRaw("leaf-y")).parent, undefined);
+		assert.deepEqual(await reopened.readLeaf("leaf-y"), second);
+
+		let parentId = "leaf-2";
+		for (let index = 3; index <= 20; index += 1) {
+			const leafId = `leaf-${index}`;
+			await cache.writeLeaf(
+				leafId,
+				new Map([["a.txt", { exists: true, hash: `a${index}`, size: 1 }]]),
+				{ parentId },
+			);
+			parentId = leafId;
+		}
+		assert.equal((await readRaw("leaf-17")).parent, "leaf-16");
+		assert.equal((await readRaw("leaf-18")).parent, undefined);
+		assert.equal((await cache.readLeaf("leaf-20"))?.get("a.txt")?.hash, "a20");
+
+		// A listing resolves each leaf once and reports the ones whose chain
+		// is broken instead of failing.
+		const listing = await cache.readLeaves();
+		assert.deepEqual(listing.broken, []);
+		for (const [leafId, manifest] of listing.leaves) {
+			assert.deepEqual(manifest, await cache.readLeaf(leafId));
+		}
+		await rm(path.join(cache.leavesDir, "leaf-10.json"));
+		const { leaves, broken } = await cache.readLeaves();
+		assert.deepEqual(
+			broken.sort(),
+			["11", "12", "13", "14", "15", "16", "17"].map((n) => `leaf-${n}`),
+		);
+		assert.equal(leaves.get("leaf-20")?.get("a.txt")?.hash, "a20");
+		assert.equal(leaves.get("leaf-9")?.get("a.txt")?.hash, "a9");
+		// The stored deltas still name every snapshot, for GC.
+		const stored = await cache.readStoredManifests();
+		assert.ok(stored.some((manifest) => manifest.get("a.txt")?.hash === "a11"));
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createCache, hashBuffer } from "../cache.js";
+import { decodeBlob, encodeBlob, parseBlobHeader } from "../compression.js";
+
+const sample = Buffer.from("export const value = 1;\n".repeat(200), "utf-8");
+
+test("encodeBlob round-trips every codec", async () => {
+	for (const codec of ["none", "gzip", "brotli"] as const) {
+		const encoded = await encodeBlob(sample, codec);
+		assert.deepEqual(await decodeBlob(encoded), sample);
+		if (codec !== "none") {
+			assert.ok(encoded.length < sample.length);
+			assert.deepEqual(parseBlobHeader(encoded), {
+				codec,
+				originalSize: sample.length,
+			});
+		}
+	}
+});
+
+test("decodeBlob keeps raw blobs readable", async () => {
+	const raw = Buffer.from("plain text");
+	assert.deepEqual(await decodeBlob(raw), raw);
+
+	const lookalike = Buffer.concat([
+		Buffer.from([0x00, 0x50, 0x49, 0x55, 0x52, 0x01]),
+		Buffer.from("not gzip"),
+	]);
+	const stored = await encodeBlob(lookalike, "none");
+	assert.notDeepEqual(stored, lookalike);
+	assert.deepEqual(await decodeBlob(stored), lookalike);
+});
+
+test("cache compresses new blobs and reports the ratio", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-compress-"));
+	const cache = createCache("session", { baseDir, compression: "gzip" });
+	await cache.ensure();
+
+	try {
+		const legacy = Buffer.from("legacy blob");
+		await writeFile(path.join(cache.blobsDir, hashBuffer(legacy)), legacy);
+		await cache.writeBlob(hashBuffer(sample), sample);
+
+		const stored = await readFile(
+			path.join(cache.blobsDir, hashBuffer(sample)),
+		);
+		assert.equal(parseBlobHeader(stored)?.codec, "gzip");
+		assert.deepEqual(await cache.readBlob(hashBuffer(sample)), sample);
+		assert.deepEqual(await cache.readBlob(hashBuffer(legacy)), legacy);
+
+		const stats = await cache.getCompressionStats();
+		assert.equal(stats.blobCount, 2);
+		assert.equal(stats.originalBytes, sample.length + legacy.length);
+		assert.ok(stats.storedBytes < stats.originalBytes);
+		assert.deepEqual(stats.codecCounts, { none: 1, gzip: 1, brotli: 0 });
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
@@ -4,7 +4,13 @@ import { tmpdir } from "node:os";
 import path from "node:path";
 import { test } from "node:test";
 import { createCache } from "../cache.js";
-import { formatDiffText, listDiffItems } from "../diff-stack.js";
+import {
+	formatDiffText,
+	formatLeafDiff,
+	formatRestorePreview,
+	listDiffItems,
+	previewRestore,
+} from "../diff-stack.js";
 import { SnapshotTracker } from "../tracker.js";
 
 async function createTempDir(prefix: string): Promise<string> {
@@ -38,7 +44,7 @@ test("diff helpers list buffered changes", async () => {
 		await tracker.updateFromSandbox(addedPath);
 		await tracker.saveLeaf("leaf-1");
 
-		const items = await listDiffItems(tracker, cache);
+		const { items } = await listDiffItems(tracker, cache);
 		assert.equal(items.length, 2);
 		assert.ok(
 			items.some(
@@ -94,3 +100,115 @@ test("formatDiffText renders textual diffs", async () => {
 		await rm(cache.root, { recursive: true, force: true });
 	}
 });
+
+test("listDiffItems pairs deleted and added files into renames", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const sessionId = `test-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+	const cache = createCache(sessionId);
+	await cache.ensure();
+
+	try {
+		const lines = Array.from({ length: 10 }, (_, index) => `line ${index}`);
+		await writeFile(path.join(realRoot, "moved.txt"), "same", "utf-8");
+		await writeFile(
+			path.join(realRoot, "edited.txt"),
+			`${lines.join("\n")}\n`,
+			"utf-8",
+		);
+		await cp(realRoot, sandboxRoot, { recursive: true });
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		for (const filePath of ["moved.txt", "edited.txt"]) {
+			await tracker.ensureBaseFromSandbox(filePath);
+			await rm(path.join(sandboxRoot, filePath));
+			await tracker.updateFromSandbox(filePath);
+		}
+		await writeFile(path.join(sandboxRoot, "renamed.txt"), "same", "utf-8");
+		await tracker.updateFromSandbox("renamed.txt");
+		lines[3] = "line three";
+		await writeFile(
+			path.join(sandboxRoot, "rewritten.txt"),
+			`${lines.join("\n")}\n`,
+			"utf-8",
+		);
+		await tracker.updateFromSandbox("rewritten.txt");
+		await tracker.saveLeaf("leaf-1");
+
+		const { items } = await listDiffItems(tracker, cache);
+		assert.deepEqual(
+			items.map((item) => `${item.change} ${item.oldPath} ${item.path}`).sort(),
+			["renamed edited.txt rewritten.txt", "renamed moved.txt renamed.txt"],
+		);
+
+		const leafManifest = await cache.readLeaf("leaf-1");
+		assert.ok(leafManifest);
+		const diffText = await formatLeafDiff(
+			cache,
+			tracker.getBaseManifest(),
+			leafManifest,
+			"edited.txt",
+		);
+		assert.match(diffText, /^Renamed from edited\.txt to rewritten\.txt\./);
+		assert.match(diffText, /line three/);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(cache.root, { recursive: true, force: true });
+	}
+});
+
+test("previewRestore lists what restoring a leaf would change", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const sessionId = `test-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+	const cache = createCache(sessionId);
+	await cache.ensure();
+
+	try {
+		await writeFile(path.join(realRoot, "a.txt"), "base\n", "utf-8");
+		await cp(realRoot, sandboxRoot, { recursive: true });
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		const write = async (file: string, text: string | undefined) => {
+			await tracker.ensureBaseFromSandbox(file);
+			const sandboxPath = path.join(sandboxRoot, file);
+			if (text === undefined) {
+				await rm(sandboxPath);
+			} else {
+				await writeFile(sandboxPath, text, "utf-8");
+			}
+			await tracker.updateFromSandbox(file);
+		};
+		await write("a.txt", "one\n");
+		await write("b.txt", "added\n");
+		await tracker.saveLeaf("leaf-1");
+		await write("a.txt", "two\n");
+		await write("b.txt", undefined);
+		await write("c.txt", "later\n");
+
+		const target = await tracker.resolveManifest("leaf-1");
+		assert.ok(target);
+		const items = await previewRestore(
+			cache,
+			tracker.getCurrentManifest(),
+			target,
+			{ includeDiff: true },
+		);
+		assert.deepEqual(
+			items.map((item) => `${item.action} ${item.path}`),
+			["overwrite a.txt", "add b.txt", "delete c.txt"],
+		);
+		assert.match(items[0].diff ?? "", /-1 two\n\+1 one/);
+
+		const text = formatRestorePreview("Undo to leaf leaf-1", items);
+		assert.match(text, /^Undo to leaf leaf-1 changes 3 paths:/);
+		assert.doesNotMatch(text, /two/);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(cache.root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { cp, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createCache, getSharedBlobsDir, hashBuffer } from "../cache.js";
+import { collectGarbage, collectSharedGarbage, parseSize } from "../gc.js";
+import { SnapshotTracker } from "../tracker.js";
+
+async function createTempDir(prefix: string): Promise<string> {
+	return mkdtemp(path.join(tmpdir(), prefix));
+}
+
+test("parseSize understands byte suffixes", () => {
+	assert.equal(parseSize("512"), 512);
+	assert.equal(parseSize("2KB"), 2048);
+	assert.equal(parseSize("1.5 mb"), 1.5 * 1024 * 1024);
+	assert.equal(parseSize("nope"), undefined);
+});
+
+test("collectGarbage removes unreferenced blobs only", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const sessionId = `test-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+	const cache = createCache(sessionId);
+	await cache.ensure();
+
+	try {
+		const relativePath = "note.txt";
+		const realPath = path.join(realRoot, relativePath);
+		const sandboxPath = path.join(sandboxRoot, relativePath);
+
+		await writeFile(realPath, "base", "utf-8");
+		await cp(realPath, sandboxPath);
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		await tracker.ensureBaseFromSandbox(relativePath);
+
+		await writeFile(sandboxPath, "leaf", "utf-8");
+		await tracker.updateFromSandbox(relativePath);
+		await tracker.saveLeaf("leaf-1");
+		// The first version stays behind as leaf-1's previous generation.
+		await writeFile(sandboxPath, "rewritten", "utf-8");
+		await tracker.updateFromSandbox(relativePath);
+		await tracker.saveLeaf("leaf-1");
+
+		await writeFile(sandboxPath, "pending", "utf-8");
+		await tracker.updateFromSandbox(relativePath);
+
+		const orphan = Buffer.from("orphan");
+		await cache.writeBlob(hashBuffer(orphan), orphan);
+
+		const result = await collectGarbage(cache, [tracker.getTrackedManifest()]);
+		assert.equal(result.scannedBlobs, 5);
+		assert.equal(result.removedBlobs, 1);
+		assert.equal(result.freedBytes, orphan.length);
+
+		const remaining = new Set(
+			(await cache.listBlobs()).map((blob) => blob.hash),
+		);
+		assert.ok(remaining.has(hashBuffer(Buffer.from("base"))));
+		assert.ok(remaining.has(hashBuffer(Buffer.from("leaf"))));
+		assert.ok(remaining.has(hashBuffer(Buffer.from("rewritten"))));
+		assert.ok(remaining.has(hashBuffer(Buffer.from("pending"))));
+		assert.ok(!remaining.has(hashBuffer(orphan)));
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(cache.root, { recursive: true, force: true });
+	}
+});
+
+test("shared blob store dedupes across sessions and keeps rooted blobs", async () => {
+	const baseDir = await createTempDir("undo-redo-shared-");
+	const first = createCache("session-a", { baseDir, sharedBlobs: true });
+	const second = createCache("session-b", { baseDir, sharedBlobs: true });
+	await first.ensure();
+	await second.ensure();
+
+	try {
+		const shared = Buffer.from("shared");
+		const orphan = Buffer.from("orphan");
+		await first.writeBlob(hashBuffer(shared), shared);
+		await second.writeBlob(hashBuffer(shared), shared);
+		await second.writeBlob(hashBuffer(orphan), orphan);
+		await first.writeBase(
+			new Map([["a.txt", { exists: true, hash: hashBuffer(shared), size: 6 }]]),
+		);
+
+		assert.equal((await readdir(getSharedBlobsDir(baseDir))).length, 2);
+		assert.equal(
+			(await second.readBlob(hashBuffer(shared))).toString("utf-8"),
+			"shared",
+		);
+
+		const result = await collectSharedGarbage(baseDir, [], { minAgeMs: 0 });
+		assert.equal(result.removedBlobs, 1);
+		assert.deepEqual(await readdir(getSharedBlobsDir(baseDir)), [
+			hashBuffer(shared),
+		]);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
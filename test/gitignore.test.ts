@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { promisify } from "node:util";
+import { loadIgnoreMatcher, UNDO_REDO_IGNORE_FILENAME } from "../gitignore.js";
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[], input?: string) {
+	const child = execFileAsync("git", args, { cwd });
+	if (input !== undefined) {
+		child.child.stdin?.end(input);
+	}
+	return child;
+}
+
+// check-ignore exits with 1 when none of the paths are ignored.
+async function checkIgnore(cwd: string, paths: string[]): Promise<string[]> {
+	try {
+		const { stdout } = await git(
+			cwd,
+			["check-ignore", "--stdin"],
+			paths.join("\n"),
+		);
+		return stdout.split("\n").filter(Boolean);
+	} catch (error) {
+		if ((error as { code?: number }).code === 1) return [];
+		throw error;
+	}
+}
+
+const FILES: Record<string, string> = {
+	".gitignore":
+		"*.log\nbuild/\nlogs/\n!logs/keep.txt\n/root-only.txt\ndoc/**/*.pdf\n",
+	"pkg/.gitignore": "!build/\ncache/\n!debug.log\n*.gen.[jt]s\n",
+	"pkg/sub/.gitignore": "*.tmp\n!keep.tmp\n/local\n",
+	".git/info/exclude": "secret.txt\n",
+	excludes: "*.bak\n",
+};
+
+const PATHS = [
+	"a.log",
+	"build/out.js",
+	"logs/keep.txt",
+	"root-only.txt",
+	"doc/guide.pdf",
+	"doc/a/b/guide.pdf",
+	"src/index.ts",
+	"src/root-only.txt",
+	"pkg/a.log",
+	"pkg/debug.log",
+	"pkg/build/out.js",
+	"pkg/cache/data.json",
+	"pkg/sub/cache/data.json",
+	"pkg/api.gen.ts",
+	"pkg/api.gen.py",
+	"pkg/sub/a.tmp",
+	"pkg/sub/keep.tmp",
+	"pkg/sub/local/x.txt",
+	"pkg/sub/nested/local",
+	"a.tmp",
+	"secret.txt",
+	"pkg/secret.txt",
+	"notes.bak",
+];
+
+test("loadIgnoreMatcher agrees with git check-ignore", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "undo-redo-gitignore-"));
+	try {
+		await git(root, ["init", "-q"]);
+		await git(root, [
+			"config",
+			"core.excludesFile",
+			path.join(root, "excludes"),
+		]);
+		for (const [name, contents] of Object.entries(FILES)) {
+			await mkdir(path.dirname(path.join(root, name)), { recursive: true });
+			await writeFile(path.join(root, name), contents, "utf-8");
+		}
+		const directories = new Set<string>();
+		for (const relativePath of PATHS) {
+			const absolutePath = path.join(root, relativePath);
+			await mkdir(path.dirname(absolutePath), { recursive: true });
+			await writeFile(absolutePath, "", "utf-8");
+			let parent = path.posix.dirname(relativePath);
+			while (parent !== ".") {
+				directories.add(parent);
+				parent = path.posix.dirname(parent);
+			}
+		}
+
+		const expected = new Set(
+			await checkIgnore(root, [...PATHS, ...directories]),
+		);
+		const matcher = await loadIgnoreMatcher(root, []);
+		for (const relativePath of PATHS) {
+			assert.equal(
+				matcher.ignores(relativePath, false),
+				expected.has(relativePath),
+				relativePath,
+			);
+		}
+		for (const relativePath of directories) {
+			assert.equal(
+				matcher.ignores(relativePath, true),
+				expected.has(relativePath),
+				`${relativePath}/`,
+			);
+		}
+
+		// Rules are scoped to the matched root when it is a subdirectory.
+		const nested = await loadIgnoreMatcher(path.join(root, "pkg"), ["*.json"]);
+		assert.equal(nested.ignores("a.log", false), true);
+		assert.equal(nested.ignores("debug.log", false), false);
+		assert.equal(nested.ignores("build/out.js", false), false);
+		assert.equal(nested.ignores("secret.txt", false), true);
+		assert.equal(nested.ignores("manifest.json", false), true);
+
+		// Scans load a directory's ignore files up front and keep them.
+		await mkdir(path.join(root, "late"));
+		await writeFile(path.join(root, "late", ".gitignore"), "*.tmp\n", "utf-8");
+		const preloaded = await loadIgnoreMatcher(root, []);
+		await preloaded.prepare("late");
+		await rm(path.join(root, "late", ".gitignore"));
+		assert.equal(preloaded.ignores("late/x.tmp", false), true);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test(".undoredoignore overrides git rules and explains each decision", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "undo-redo-gitignore-"));
+	try {
+		await writeFile(
+			path.join(root, ".gitignore"),
+			".env*\nvendor/\nconfig/\n",
+			"utf-8",
+		);
+		await writeFile(
+			path.join(root, UNDO_REDO_IGNORE_FILENAME),
+			"# local overrides\n!.env.example\n!dist/generated.ts\n!vendor/\nfixtures/huge/\n",
+			"utf-8",
+		);
+		const matcher = await loadIgnoreMatcher(root, ["dist/"]);
+
+		assert.equal(matcher.ignores(".env", false), true);
+		assert.equal(matcher.ignores(".env.example", false), false);
+		assert.equal(matcher.ignores("dist", true), false);
+		assert.equal(matcher.ignores("dist/generated.ts", false), false);
+		assert.equal(matcher.ignores("dist/other.js", false), true);
+		assert.equal(matcher.ignores("vendor/lib/index.js", false), false);
+		assert.equal(matcher.ignores("fixtures/huge/data.bin", false), true);
+		assert.equal(matcher.ignores("fixtures/small.json", false), false);
+		// A basename negation does not reach into a directory git ignores, and
+		// the explanation agrees with what the scan sees.
+		assert.equal(matcher.ignores("config", true), true);
+		assert.equal(matcher.ignores("config/app/.env.example", false), true);
+		assert.deepEqual(matcher.explain("config/.env.example", false), {
+			ignored: true,
+			rule: {
+				pattern: "config/",
+				source: path.join(root, ".gitignore"),
+				line: 3,
+			},
+			directory: "config",
+		});
+
+		assert.deepEqual(matcher.explain(".env.example", false), {
+			ignored: false,
+			rule: {
+				pattern: "!.env.example",
+				source: path.join(root, UNDO_REDO_IGNORE_FILENAME),
+				line: 2,
+			},
+		});
+		assert.deepEqual(matcher.explain("dist/other.js", false), {
+			ignored: true,
+			rule: { pattern: "dist/", source: "ignore setting", line: 1 },
+			directory: "dist",
+		});
+		assert.deepEqual(matcher.explain("src/index.ts", false), {
+			ignored: false,
+		});
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { promisify } from "node:util";
+import {
+	acquireLock,
+	getLockPath,
+	isLockHeld,
+	isLockStale,
+	tryAcquireLock,
+} from "../lock.js";
+
+const execFileAsync = promisify(execFile);
+
+async function createTempDir(prefix: string): Promise<string> {
+	return mkdtemp(path.join(tmpdir(), prefix));
+}
+
+test("isLockStale checks local pids and expires remote owners by age", () => {
+	const now = Date.now();
+	assert.equal(
+		isLockStale(
+			{ pid: process.pid, hostname: "here", acquiredAt: now },
+			now,
+			"here",
+		),
+		false,
+	);
+	assert.equal(
+		isLockStale(
+			{ pid: 2 ** 22 + 1, hostname: "here", acquiredAt: now },
+			now,
+			"here",
+		),
+		true,
+	);
+	assert.equal(
+		isLockStale(
+			{ pid: 1, hostname: "elsewhere", acquiredAt: now },
+			now,
+			"here",
+		),
+		false,
+	);
+	assert.equal(
+		isLockStale(
+			{ pid: 1, hostname: "elsewhere", acquiredAt: now - 2 * 86400000 },
+			now,
+			"here",
+		),
+		true,
+	);
+});
+
+test("a held lock blocks other owners until released", async () => {
+	const root = await createTempDir("undo-redo-lock-");
+	const lockPath = getLockPath(root);
+	try {
+		await writeFile(
+			lockPath,
+			JSON.stringify({ pid: 1, hostname: "elsewhere", acquiredAt: Date.now() }),
+			"utf-8",
+		);
+		assert.equal(await isLockHeld(lockPath), true);
+
+		const blocked = await tryAcquireLock(lockPath);
+		assert.equal(blocked.acquired, false);
+		assert.equal(blocked.acquired ? undefined : blocked.owner?.pid, 1);
+
+		let waited = false;
+		const timedOut = await acquireLock(lockPath, {
+			timeoutMs: 30,
+			pollMs: 10,
+			onWait: () => {
+				waited = true;
+			},
+		});
+		assert.equal(timedOut.acquired, false);
+		assert.ok(waited);
+
+		await rm(lockPath);
+		const attempt = await tryAcquireLock(lockPath);
+		assert.ok(attempt.acquired);
+		const owner = JSON.parse(await readFile(lockPath, "utf-8"));
+		assert.equal(owner.pid, process.pid);
+		await attempt.handle.release();
+		assert.equal(await isLockHeld(lockPath), false);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("tryAcquireLock takes over a lock left by a dead process", async () => {
+	const root = await createTempDir("undo-redo-lock-");
+	const lockPath = getLockPath(root);
+	try {
+		await writeFile(
+			lockPath,
+			JSON.stringify({
+				pid: 2 ** 22 + 1,
+				hostname: hostname(),
+				acquiredAt: Date.now(),
+			}),
+			"utf-8",
+		);
+		assert.equal(await isLockHeld(lockPath), false);
+
+		const attempt = await tryAcquireLock(lockPath);
+		assert.ok(attempt.acquired);
+		assert.equal(attempt.handle.owner.pid, process.pid);
+		await attempt.handle.release();
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("processes racing for the same stale lock take it over only once", async () => {
+	const root = await createTempDir("undo-redo-lock-");
+	const lockPath = getLockPath(root);
+	const script = `const { tryAcquireLock } = await import(${JSON.stringify(
+		pathToFileURL(path.resolve("lock.ts")).href,
+	)});
+const attempt = await tryAcquireLock(process.argv[1]);
+console.log(attempt.acquired);`;
+	try {
+		await writeFile(
+			lockPath,
+			JSON.stringify({
+				pid: 2 ** 22 + 1,
+				hostname: hostname(),
+				acquiredAt: Date.now(),
+			}),
+			"utf-8",
+		);
+		const results = await Promise.all(
+			[0, 1].map(() =>
+				execFileAsync(process.execPath, [
+					"--import",
+					"tsx",
+					"--input-type=module",
+					"-e",
+					script,
+					lockPath,
+				]),
+			),
+		);
+		assert.deepEqual(results.map(({ stdout }) => stdout.trim()).sort(), [
+			"false",
+			"true",
+		]);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { copyFile, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { createCache } from "../cache.js";
+import {
+	CACHE_VERSION,
+	CacheVersionError,
+	type MigrationStep,
+	migrateManifestPayload,
+} from "../migrations.js";
+
+const FIXTURES_DIR = path.join(
+	path.dirname(fileURLToPath(import.meta.url)),
+	"fixtures",
+	"v1",
+);
+
+async function createFixtureCache() {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-migrate-"));
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+	await copyFile(path.join(FIXTURES_DIR, "base.json"), cache.basePath);
+	await copyFile(
+		path.join(FIXTURES_DIR, "leaf.json"),
+		path.join(cache.leavesDir, "leaf-1.json"),
+	);
+	await copyFile(
+		path.join(FIXTURES_DIR, "leaf-unversioned.json"),
+		path.join(cache.leavesDir, "leaf-0.json"),
+	);
+	return { baseDir, cache };
+}
+
+test("v1 manifests load through the migration layer", async () => {
+	const { baseDir, cache } = await createFixtureCache();
+	try {
+		const base = await cache.readBase();
+		assert.equal(base?.get("note.txt")?.size, 4);
+		assert.equal(base?.get("note.txt")?.kind, "file");
+		assert.equal(base?.get("note.txt")?.mode, undefined);
+		assert.equal(base?.get("added.txt")?.exists, false);
+
+		const leaf = await cache.readLeaf("leaf-1");
+		assert.equal(leaf?.get("note.txt")?.size, 7);
+		assert.equal(leaf?.get("added.txt")?.exists, true);
+
+		const unversioned = await cache.readLeaf("leaf-0");
+		assert.equal(unversioned?.get("note.txt")?.exists, false);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("newer cache versions are refused", async () => {
+	const { baseDir, cache } = await createFixtureCache();
+	try {
+		await writeFile(
+			cache.basePath,
+			JSON.stringify({ version: CACHE_VERSION + 1, files: {} }),
+			"utf-8",
+		);
+		await assert.rejects(cache.readBase(), CacheVersionError);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("migrateManifestPayload runs registered steps in order", () => {
+	const steps: MigrationStep[] = [
+		{
+			from: 1,
+			to: 2,
+			migrate: (payload) => ({ ...payload, renamed: true }),
+		},
+		{
+			from: 2,
+			to: 3,
+			kinds: ["leaf"],
+			migrate: (payload) => ({ ...payload, leafOnly: true }),
+		},
+	];
+
+	const leaf = migrateManifestPayload(
+		{ version: 1, files: {} },
+		"leaf",
+		"leaf.json",
+		{ steps, targetVersion: 3 },
+	);
+	assert.deepEqual(leaf, {
+		version: 3,
+		files: {},
+		renamed: true,
+		leafOnly: true,
+	});
+
+	const base = migrateManifestPayload({ files: {} }, "base", "base.json", {
+		steps,
+		targetVersion: 3,
+	});
+	assert.deepEqual(base, { version: 3, files: {}, renamed: true });
+
+	assert.throws(
+		() =>
+			migrateManifestPayload({ version: 1 }, "base", "base.json", {
+				steps: [],
+				targetVersion: 2,
+			}),
+		/No undo\/redo cache migration/,
+	);
+});
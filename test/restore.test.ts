@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import {
+	mkdir,
+	mkdtemp,
+	readdir,
+	readFile,
+	rm,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createCache, hashBuffer } from "../cache.js";
+import { applyManifestTransaction, recoverRestoreJournal } from "../restore.js";
+import type { Manifest } from "../types.js";
+
+async function createTempDir(prefix: string): Promise<string> {
+	return mkdtemp(path.join(tmpdir(), prefix));
+}
+
+test("a failed restore leaves every root as it was", async () => {
+	const root = await createTempDir("undo-redo-restore-");
+	const cache = createCache("session", { baseDir: path.join(root, "cache") });
+	const roots = [path.join(root, "sandbox"), path.join(root, "real")];
+	try {
+		await cache.ensure();
+		for (const target of roots) {
+			await mkdir(target);
+			await writeFile(path.join(target, "a.txt"), "before", "utf-8");
+			await writeFile(path.join(target, "gone.txt"), "keep", "utf-8");
+		}
+		const buffer = Buffer.from("after");
+		const hash = hashBuffer(buffer);
+		await cache.writeBlob(hash, buffer);
+		const manifest: Manifest = new Map([
+			["a.txt", { exists: true, kind: "file", hash }],
+			["gone.txt", { exists: false }],
+			["new", { exists: true, kind: "directory" }],
+			["new/b.txt", { exists: true, kind: "file", hash: "0".repeat(64) }],
+		]);
+
+		await assert.rejects(applyManifestTransaction(cache, manifest, roots));
+		for (const target of roots) {
+			assert.deepEqual((await readdir(target)).sort(), ["a.txt", "gone.txt"]);
+			assert.equal(
+				await readFile(path.join(target, "a.txt"), "utf-8"),
+				"before",
+			);
+		}
+		assert.equal(existsSync(cache.journalPath), false);
+
+		manifest.delete("new/b.txt");
+		await applyManifestTransaction(cache, manifest, roots);
+		for (const target of roots) {
+			assert.deepEqual((await readdir(target)).sort(), ["a.txt", "new"]);
+			assert.equal(
+				await readFile(path.join(target, "a.txt"), "utf-8"),
+				"after",
+			);
+		}
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("recoverRestoreJournal rolls back an interrupted restore", async () => {
+	const root = await createTempDir("undo-redo-restore-");
+	const cache = createCache("session", { baseDir: path.join(root, "cache") });
+	const target = path.join(root, "real");
+	const stagingDir = path.join(target, ".undo-redo-restore-test");
+	try {
+		await cache.ensure();
+		await mkdir(stagingDir, { recursive: true });
+		await writeFile(path.join(target, "a.txt"), "half-restored", "utf-8");
+		await writeFile(path.join(stagingDir, "0.old"), "original", "utf-8");
+		await writeFile(path.join(stagingDir, "1.new"), "not applied", "utf-8");
+		await writeFile(
+			cache.journalPath,
+			JSON.stringify({
+				version: 1,
+				phase: "apply",
+				createdAt: Date.now(),
+				stagingDirectories: [stagingDir],
+				files: [
+					{
+						target: path.join(target, "a.txt"),
+						existed: true,
+						backup: path.join(stagingDir, "0.old"),
+						staged: path.join(stagingDir, "0.new"),
+					},
+					{
+						target: path.join(target, "b.txt"),
+						existed: false,
+						backup: path.join(stagingDir, "1.old"),
+						staged: path.join(stagingDir, "1.new"),
+					},
+				],
+				createdDirectories: [],
+				modeChanges: [],
+				removedDirectories: [],
+			}),
+			"utf-8",
+		);
+
+		assert.equal(await recoverRestoreJournal(cache), "rolled-back");
+		assert.deepEqual(await readdir(target), ["a.txt"]);
+		assert.equal(
+			await readFile(path.join(target, "a.txt"), "utf-8"),
+			"original",
+		);
+		assert.equal(await recoverRestoreJournal(cache), undefined);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
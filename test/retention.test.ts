@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import {
+	listSessions,
+	parseRetentionPolicy,
+	pruneSessions,
+	type SessionRecord,
+	selectSessionsToPrune,
+	touchSession,
+} from "../retention.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("parseRetentionPolicy reads age, size and missing rules", () => {
+	assert.deepEqual(parseRetentionPolicy("age=7d,size=1GB,missing"), {
+		maxAgeMs: 7 * DAY_MS,
+		maxTotalBytes: 1024 * 1024 * 1024,
+		pruneMissingProjects: true,
+	});
+	assert.deepEqual(parseRetentionPolicy("off"), {});
+	assert.throws(() => parseRetentionPolicy("age=soon"));
+});
+
+test("selectSessionsToPrune applies age, missing and size policies", () => {
+	const now = 100 * DAY_MS;
+	const sessions: SessionRecord[] = [
+		{ sessionId: "old", lastUsed: now - 40 * DAY_MS, cwd: "/a", bytes: 10 },
+		{ sessionId: "gone", lastUsed: now, cwd: "/missing", bytes: 10 },
+		{ sessionId: "big", lastUsed: now - 2 * DAY_MS, cwd: "/a", bytes: 80 },
+		{ sessionId: "current", lastUsed: now - 90 * DAY_MS, cwd: "/a", bytes: 50 },
+		{ sessionId: "fresh", lastUsed: now - DAY_MS, cwd: "/a", bytes: 20 },
+	];
+
+	const candidates = selectSessionsToPrune(
+		sessions,
+		{ maxAgeMs: 30 * DAY_MS, maxTotalBytes: 100, pruneMissingProjects: true },
+		{
+			now,
+			protectedIds: new Set(["current"]),
+			projectExists: (cwd) => cwd !== "/missing",
+		},
+	);
+
+	assert.deepEqual(
+		candidates.map(({ session, reason }) => [session.sessionId, reason]),
+		[
+			["old", "age"],
+			["gone", "missing"],
+			["big", "size"],
+		],
+	);
+});
+
+test("pruneSessions removes stale session directories and updates the index", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-retention-"));
+	try {
+		await mkdir(path.join(baseDir, "keep"), { recursive: true });
+		await mkdir(path.join(baseDir, "stale"), { recursive: true });
+		await writeFile(path.join(baseDir, "stale", "base.json"), "{}", "utf-8");
+		await touchSession(baseDir, "keep", baseDir);
+		await touchSession(baseDir, "stale", path.join(baseDir, "nowhere"));
+
+		const result = await pruneSessions(
+			baseDir,
+			{ pruneMissingProjects: true },
+			{ protectedIds: new Set(["keep"]) },
+		);
+		assert.deepEqual(
+			result.removed.map(({ session }) => session.sessionId),
+			["stale"],
+		);
+		assert.equal(result.freedBytes, 2);
+
+		const remaining = await listSessions(baseDir);
+		assert.deepEqual(
+			remaining.map((record) => record.sessionId),
+			["keep"],
+		);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("pruneSessions leaves directories that are not session caches alone", async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "undo-redo-retention-"));
+	try {
+		const foreign = path.join(baseDir, "my-photos");
+		const orphan = path.join(baseDir, "orphan");
+		await mkdir(foreign);
+		await writeFile(path.join(foreign, "beach.jpg"), "jpg", "utf-8");
+		await mkdir(path.join(orphan, "leaves"), { recursive: true });
+		const old = new Date(Date.now() - 60 * DAY_MS);
+		await utimes(foreign, old, old);
+		await utimes(orphan, old, old);
+
+		const result = await pruneSessions(baseDir, { maxAgeMs: 30 * DAY_MS });
+		assert.deepEqual(
+			result.removed.map(({ session }) => session.sessionId),
+			["orphan"],
+		);
+		assert.equal(existsSync(path.join(foreign, "beach.jpg")), true);
+		assert.deepEqual(await listSessions(baseDir), []);
+	} finally {
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
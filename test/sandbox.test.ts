@@ -1,7 +1,29 @@
 import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import {
+	chmod,
+	lstat,
+	mkdir,
+	mkdtemp,
+	readFile,
+	rename,
+	rm,
+	utimes,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { test } from "node:test";
-import { diffSandboxStats } from "../sandbox.js";
-import type { SandboxEntryStats } from "../types.js";
+import { loadIgnoreMatcher } from "../gitignore.js";
+import {
+	applySandboxChanges,
+	DEFAULT_IGNORES,
+	diffSandboxStats,
+	ensureSandboxFile,
+	readSandboxMeta,
+	SandboxState,
+} from "../sandbox.js";
+import type { SandboxEntryStats, SandboxProgress } from "../types.js";
 
 test("diffSandboxStats detects added, changed, removed", () => {
 	const before = new Map<string, SandboxEntryStats>([
@@ -18,3 +40,181 @@ test("diffSandboxStats detects added, changed, removed", () => {
 	assert.deepEqual(diff.changed, ["b.txt"]);
 	assert.deepEqual(diff.removed, ["a.txt"]);
 });
+
+test("diffSandboxStats reports directories in creation order", () => {
+	const directory = { size: 0, mtimeMs: 0, directory: true };
+	const before = new Map<string, SandboxEntryStats>([
+		["old", directory],
+		["old/nested", directory],
+		["swap", { size: 1, mtimeMs: 100 }],
+	]);
+	const after = new Map<string, SandboxEntryStats>([
+		["src/lib", directory],
+		["src", directory],
+		["src/lib/a.ts", { size: 1, mtimeMs: 100 }],
+		["swap", directory],
+	]);
+
+	const diff = diffSandboxStats(before, after);
+	assert.deepEqual(diff.addedDirectories, ["src", "swap", "src/lib"]);
+	assert.deepEqual(diff.removedDirectories, ["old/nested", "old"]);
+	assert.deepEqual(diff.added, ["src/lib/a.ts"]);
+	assert.deepEqual(diff.removed, ["swap"]);
+});
+
+test("SandboxState clones with reflinks or fills a lazy sandbox on demand", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "undo-redo-sandbox-"));
+	const realRoot = path.join(root, "real");
+	const sandboxRoot = path.join(root, "sandbox");
+	try {
+		await mkdir(path.join(realRoot, "src"), { recursive: true });
+		await mkdir(path.join(realRoot, "node_modules"));
+		await chmod(path.join(realRoot, "src"), 0o750);
+		await writeFile(path.join(realRoot, "a.txt"), "a", "utf-8");
+		await writeFile(path.join(realRoot, "src", "b.txt"), "b", "utf-8");
+		await writeFile(path.join(realRoot, "node_modules", "c.js"), "c", "utf-8");
+
+		const progress: SandboxProgress[] = [];
+		const state = new SandboxState(realRoot, sandboxRoot, (event) =>
+			progress.push(event),
+		);
+		await state.initialize();
+		const strategy = state.getStrategy();
+		assert.ok(strategy === "reflink" || strategy === "lazy");
+		assert.equal(progress.at(-1)?.strategy, strategy);
+
+		if (strategy === "lazy") {
+			assert.equal(state.isPartial(), true);
+			assert.equal(existsSync(path.join(sandboxRoot, "a.txt")), false);
+			await ensureSandboxFile("src/b.txt", realRoot, sandboxRoot);
+			assert.equal(
+				(await lstat(path.join(sandboxRoot, "src"))).mode & 0o777,
+				0o750,
+			);
+			assert.equal(existsSync(path.join(sandboxRoot, "a.txt")), false);
+		}
+
+		await state.materialize();
+		assert.equal(state.isPartial(), false);
+		assert.equal(await readFile(path.join(sandboxRoot, "a.txt"), "utf-8"), "a");
+		assert.equal(
+			await readFile(path.join(sandboxRoot, "src", "b.txt"), "utf-8"),
+			"b",
+		);
+		assert.equal(existsSync(path.join(sandboxRoot, "node_modules")), false);
+		const stats = state.getStats();
+		assert.ok(stats.has("a.txt") && stats.has("src/b.txt"));
+		assert.equal(stats.has("node_modules/c.js"), false);
+		assert.equal((await readSandboxMeta(sandboxRoot))?.materialized, true);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("applySandboxChanges matches a full rescan after a command", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "undo-redo-sandbox-"));
+	const realRoot = path.join(root, "real");
+	const sandboxRoot = path.join(root, "sandbox");
+	const state = new SandboxState(realRoot, sandboxRoot);
+	try {
+		await mkdir(path.join(realRoot, "src", "old"), { recursive: true });
+		await writeFile(path.join(realRoot, "a.txt"), "a", "utf-8");
+		await writeFile(path.join(realRoot, "b.txt"), "b", "utf-8");
+		await writeFile(path.join(realRoot, "src", "old", "c.ts"), "c", "utf-8");
+		await state.initialize();
+		await state.materialize();
+		state.setStats(await state.rescan());
+
+		state.beginCommand();
+		await writeFile(path.join(sandboxRoot, "a.txt"), "changed", "utf-8");
+		await rm(path.join(sandboxRoot, "b.txt"));
+		await mkdir(path.join(sandboxRoot, "new", "deep"), { recursive: true });
+		await writeFile(path.join(sandboxRoot, "new", "deep", "d.ts"), "d");
+		await rename(
+			path.join(sandboxRoot, "src", "old"),
+			path.join(sandboxRoot, "src", "moved"),
+		);
+		await mkdir(path.join(sandboxRoot, "node_modules"));
+		await writeFile(path.join(sandboxRoot, "node_modules", "e.js"), "e");
+		// Left behind by an interrupted restore.
+		const stagingDir = path.join(sandboxRoot, ".undo-redo-restore-0a1b2c3d");
+		await mkdir(stagingDir);
+		await writeFile(path.join(stagingDir, "0"), "backup");
+
+		const expected = await state.rescan();
+		const ignoreMatcher = await loadIgnoreMatcher(realRoot, DEFAULT_IGNORES);
+		// Watchers report either every path or only the topmost new one, and
+		// may leave out the directories created on the way to a file.
+		for (const reported of [
+			[
+				"a.txt",
+				"b.txt",
+				"new",
+				"new/deep",
+				"new/deep/d.ts",
+				"src/old",
+				"src/moved",
+				"node_modules",
+				"node_modules/e.js",
+			],
+			["a.txt", "b.txt", "new", "src/old", "src/moved", "node_modules"],
+			["a.txt", "b.txt", "new/deep/d.ts", "src/old", "src/moved"],
+		]) {
+			const changed = await applySandboxChanges(
+				sandboxRoot,
+				state.getStats(),
+				reported,
+				ignoreMatcher,
+			);
+			assert.deepEqual(changed, expected, reported.join(", "));
+		}
+		assert.ok(expected.has("src/moved/c.ts"));
+		assert.equal(expected.has("src/old/c.ts"), false);
+		assert.equal(expected.has("node_modules/e.js"), false);
+		assert.equal(expected.has(".undo-redo-restore-0a1b2c3d/0"), false);
+		assert.deepEqual(await state.scanChanges(), expected);
+	} finally {
+		state.close();
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("hash verification catches changes that keep size and mtime", async () => {
+	const root = await mkdtemp(path.join(tmpdir(), "undo-redo-sandbox-"));
+	const realRoot = path.join(root, "real");
+	const sandboxRoot = path.join(root, "sandbox");
+	const state = new SandboxState(
+		realRoot,
+		sandboxRoot,
+		undefined,
+		undefined,
+		1024,
+	);
+	try {
+		await mkdir(realRoot);
+		await writeFile(path.join(realRoot, "a.txt"), "aaaa", "utf-8");
+		await writeFile(path.join(realRoot, "b.txt"), "bbbb", "utf-8");
+		await writeFile(path.join(realRoot, "big.bin"), Buffer.alloc(2048));
+		await state.initialize();
+		await state.materialize();
+		state.setStats(await state.rescan());
+		const before = state.getStats();
+		assert.ok(before.get("a.txt")?.hash);
+		assert.equal(before.get("big.bin")?.hash, undefined);
+
+		state.beginCommand();
+		const target = path.join(sandboxRoot, "a.txt");
+		const { atime, mtime } = await lstat(target);
+		await writeFile(target, "AAAA", "utf-8");
+		await utimes(target, atime, mtime);
+		const after = await state.scanChanges();
+		assert.equal(after.get("a.txt")?.mtimeMs, before.get("a.txt")?.mtimeMs);
+
+		const diff = diffSandboxStats(before, after);
+		assert.deepEqual(diff.changed, ["a.txt"]);
+		assert.equal(after.get("b.txt")?.hash, before.get("b.txt")?.hash);
+	} finally {
+		state.close();
+		await rm(root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { DEFAULT_DIFF_CONTEXT_LINES } from "../diff-stack.js";
+import { DEFAULT_IGNORES } from "../sandbox.js";
+import { getProjectSettingsPath, loadSettings } from "../settings.js";
+
+async function createTempDir(prefix: string): Promise<string> {
+	return mkdtemp(path.join(tmpdir(), prefix));
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+	await mkdir(path.dirname(filePath), { recursive: true });
+	await writeFile(filePath, JSON.stringify(value), "utf-8");
+}
+
+test("loadSettings layers project settings over global ones", async () => {
+	const root = await createTempDir("undo-redo-settings-");
+	const projectRoot = path.join(root, "project");
+	const globalPath = path.join(root, "global.json");
+	try {
+		await writeJson(globalPath, {
+			cacheDir: "/tmp/undo-redo-cache",
+			diffContextLines: 8,
+			gcThreshold: "1GB",
+		});
+		await writeJson(getProjectSettingsPath(projectRoot), {
+			cacheDir: ".cache/undo-redo",
+			ignore: ["*.log"],
+			maxOutputBytes: "16KB",
+		});
+
+		const { settings, sources, warnings } = await loadSettings(projectRoot, {
+			globalPath,
+		});
+		assert.equal(warnings.length, 1);
+		assert.match(warnings[0], /Ignoring cacheDir/);
+		assert.deepEqual(sources, [
+			globalPath,
+			getProjectSettingsPath(projectRoot),
+		]);
+		assert.equal(settings.cacheDir, "/tmp/undo-redo-cache");
+		assert.deepEqual(settings.ignore, [...DEFAULT_IGNORES, "*.log"]);
+		assert.equal(settings.diffContextLines, 8);
+		assert.equal(settings.maxOutputBytes, 16 * 1024);
+		assert.equal(settings.gcThreshold, 1024 * 1024 * 1024);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("loadSettings ignores files that fail validation", async () => {
+	const root = await createTempDir("undo-redo-settings-");
+	const globalPath = path.join(root, "global.json");
+	try {
+		await writeJson(globalPath, { diffContextLines: -1, unknown: true });
+		await writeJson(getProjectSettingsPath(root), {
+			retention: "age=soon",
+			compression: "brotli",
+		});
+
+		const { settings, warnings } = await loadSettings(root, { globalPath });
+		assert.equal(warnings.length, 2);
+		assert.match(warnings[0], /global\.json/);
+		assert.match(warnings[1], /Invalid retention/);
+		assert.equal(settings.diffContextLines, DEFAULT_DIFF_CONTEXT_LINES);
+		assert.deepEqual(settings.ignore, DEFAULT_IGNORES);
+		assert.equal(settings.retention, undefined);
+		assert.equal(settings.compression, "brotli");
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
+
+test("loadSettings keeps destructive settings out of project files", async () => {
+	const root = await createTempDir("undo-redo-settings-");
+	const globalPath = path.join(root, "global.json");
+	try {
+		await writeJson(globalPath, { retention: "age=90d", lock: "wait" });
+		await writeJson(getProjectSettingsPath(root), {
+			cacheDir: "/tmp/elsewhere",
+			retention: "age=1m,size=0",
+			headlessConflicts: "overwrite",
+			sharedBlobs: true,
+			lock: "refuse",
+			verifyHashes: true,
+		});
+
+		const { settings, warnings } = await loadSettings(root, { globalPath });
+		assert.deepEqual(
+			warnings.map((warning) => warning.split(" ")[1]),
+			["cacheDir", "retention", "headlessConflicts", "sharedBlobs", "lock"],
+		);
+		assert.equal(settings.retention, "age=90d");
+		assert.equal(settings.headlessConflicts, "skip");
+		assert.equal(settings.sharedBlobs, false);
+		assert.equal(settings.lock, "wait");
+		assert.equal(settings.verifyHashes, true);
+	} finally {
+		await rm(root, { recursive: true, force: true });
+	}
+});
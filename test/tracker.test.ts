@@ -1,9 +1,22 @@
 import assert from "node:assert/strict";
-import { cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import {
+	chmod,
+	cp,
+	lstat,
+	mkdir,
+	mkdtemp,
+	readdir,
+	readFile,
+	readlink,
+	rm,
+	symlink,
+	writeFile,
+} from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { test } from "node:test";
 import { createCache } from "../cache.js";
+import { collectGarbage } from "../gc.js";
 import { SnapshotTracker } from "../tracker.js";
 
 async function createTempDir(prefix: string): Promise<string> {
@@ -38,6 +51,337 @@ test("SnapshotTracker saves and restores leaf", async () => {
 
 		const restored = await readFile(realPath, "utf-8");
 		assert.equal(restored, "updated");
+
+		// A damaged leaf is never overwritten with another leaf's state.
+		const saved = await cache.readLeaf("leaf-1");
+		tracker.setUnrestorableLeaves(["leaf-1"]);
+		await writeFile(sandboxPath, "elsewhere", "utf-8");
+		await tracker.updateFromSandbox(relativePath);
+		await tracker.saveLeaf("leaf-1");
+		assert.deepEqual(await cache.readLeaf("leaf-1"), saved);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(cache.root, { recursive: true, force: true });
+	}
+});
+
+test("read-only files keep a base snapshot without counting as tracked", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const baseDir = await createTempDir("undo-redo-cache-");
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		for (const name of ["read.txt", "edit.txt"]) {
+			await writeFile(path.join(realRoot, name), "base", "utf-8");
+			await writeFile(path.join(sandboxRoot, name), "base", "utf-8");
+		}
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		await tracker.ensureBaseFromSandbox("read.txt");
+		await tracker.ensureBaseFromSandbox("edit.txt");
+		await writeFile(path.join(sandboxRoot, "edit.txt"), "edited", "utf-8");
+		await tracker.updateFromSandbox("edit.txt");
+		assert.deepEqual([...tracker.getTrackedManifest().keys()], ["edit.txt"]);
+		assert.equal(tracker.getTrackedStats().fileCount, 1);
+
+		// A bash command later rewrites the file that was only read.
+		await writeFile(path.join(sandboxRoot, "read.txt"), "changed", "utf-8");
+		await tracker.updateFromSandbox("read.txt");
+		assert.equal(tracker.getTrackedStats().fileCount, 2);
+		await tracker.restoreLeaf(null, [sandboxRoot]);
+		assert.equal(
+			await readFile(path.join(sandboxRoot, "read.txt"), "utf-8"),
+			"base",
+		);
+
+		// Writing the original content back is not a modification.
+		await writeFile(path.join(sandboxRoot, "edit.txt"), "base", "utf-8");
+		await tracker.updateFromSandbox("edit.txt");
+		assert.equal(tracker.getTrackedStats().fileCount, 0);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("restoreLeaf reports external edits and honors resolutions", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const baseDir = await createTempDir("undo-redo-cache-");
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		for (const name of ["a.txt", "b.txt", "c.txt"]) {
+			await writeFile(path.join(realRoot, name), "base", "utf-8");
+			await writeFile(path.join(sandboxRoot, name), "base", "utf-8");
+		}
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		for (const name of ["a.txt", "b.txt", "c.txt"]) {
+			await tracker.ensureBaseFromSandbox(name);
+			await writeFile(path.join(sandboxRoot, name), "leaf", "utf-8");
+			await tracker.updateFromSandbox(name);
+		}
+		await tracker.saveLeaf("leaf-1");
+		for (const name of ["a.txt", "b.txt", "c.txt"]) {
+			await writeFile(path.join(realRoot, name), "leaf", "utf-8");
+		}
+		await tracker.restoreLeaf(null, [realRoot, sandboxRoot]);
+
+		assert.deepEqual(await tracker.findRestoreConflicts("leaf-1"), []);
+
+		await writeFile(path.join(realRoot, "a.txt"), "ide", "utf-8");
+		await writeFile(path.join(realRoot, "b.txt"), "ide", "utf-8");
+		await writeFile(path.join(realRoot, "c.txt"), "leaf", "utf-8");
+		const conflicts = await tracker.findRestoreConflicts("leaf-1");
+		assert.deepEqual(
+			conflicts.map((conflict) => conflict.path),
+			["a.txt", "b.txt"],
+		);
+
+		await tracker.restoreLeaf(
+			"leaf-1",
+			[sandboxRoot, realRoot],
+			new Map([
+				["a.txt", "skip"],
+				["b.txt", "keep-both"],
+			]),
+		);
+		const read = (root: string, name: string) =>
+			readFile(path.join(root, name), "utf-8");
+		assert.equal(await read(realRoot, "a.txt"), "ide");
+		assert.equal(await read(sandboxRoot, "a.txt"), "ide");
+		assert.equal(await read(realRoot, "b.txt"), "leaf");
+		assert.equal(await read(realRoot, "b.txt.orig"), "ide");
+		assert.deepEqual(await tracker.findRestoreConflicts("leaf-1"), []);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("restoreLeaf reproduces file modes and symlinks", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const baseDir = await createTempDir("undo-redo-cache-");
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		const scriptPath = path.join(sandboxRoot, "run.sh");
+		const linkPath = path.join(sandboxRoot, "latest");
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		await tracker.ensureBaseFromSandbox("run.sh");
+		await tracker.ensureBaseFromSandbox("latest");
+
+		await writeFile(scriptPath, "#!/bin/sh\n", "utf-8");
+		await chmod(scriptPath, 0o755);
+		await symlink("run.sh", linkPath);
+		await tracker.updateFromSandbox("run.sh");
+		const linkEntry = await tracker.updateFromSandbox("latest");
+		assert.deepEqual(linkEntry, {
+			exists: true,
+			kind: "symlink",
+			target: "run.sh",
+		});
+		await tracker.saveLeaf("leaf-1");
+
+		await tracker.restoreLeaf("leaf-1", [realRoot]);
+		const restoredScript = await lstat(path.join(realRoot, "run.sh"));
+		assert.equal(restoredScript.mode & 0o777, 0o755);
+		const restoredLink = path.join(realRoot, "latest");
+		assert.ok((await lstat(restoredLink)).isSymbolicLink());
+		assert.equal(await readlink(restoredLink), "run.sh");
+
+		await tracker.restoreLeaf(null, [realRoot]);
+		await assert.rejects(lstat(restoredLink), { code: "ENOENT" });
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("restoring the base removes directories created by tools", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const baseDir = await createTempDir("undo-redo-cache-");
+	const cache = createCache("session", { baseDir });
+	await cache.ensure();
+
+	try {
+		await mkdir(path.join(realRoot, "src"));
+		await mkdir(path.join(sandboxRoot, "src"));
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		await tracker.ensureBaseFromSandbox("src/app/main.ts");
+
+		await mkdir(path.join(sandboxRoot, "src/app"));
+		await writeFile(path.join(sandboxRoot, "src/app/main.ts"), "x", "utf-8");
+		await tracker.updateFromSandbox("src/app/main.ts");
+		assert.equal(tracker.getTrackedStats().fileCount, 1);
+		await tracker.saveLeaf("leaf-1");
+
+		await tracker.restoreLeaf("leaf-1", [realRoot]);
+		assert.equal(
+			await readFile(path.join(realRoot, "src/app/main.ts"), "utf-8"),
+			"x",
+		);
+
+		await writeFile(path.join(realRoot, "src/keep.txt"), "mine", "utf-8");
+		await tracker.restoreLeaf(null, [realRoot]);
+		assert.deepEqual(await readdir(path.join(realRoot, "src")), ["keep.txt"]);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(baseDir, { recursive: true, force: true });
+	}
+});
+
+test("rollbackToCheckpoint drops one tool call and the ones after it", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const sessionId = `test-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+	const cache = createCache(sessionId);
+	await cache.ensure();
+
+	try {
+		await writeFile(path.join(realRoot, "a.txt"), "a0", "utf-8");
+		await writeFile(path.join(realRoot, "b.txt"), "b0", "utf-8");
+		await cp(realRoot, sandboxRoot, { recursive: true });
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		tracker.resetCheckpoints();
+		const edit = async (toolCallId: string, file: string, text: string) => {
+			await tracker.ensureBaseFromSandbox(file);
+			await writeFile(path.join(sandboxRoot, file), text, "utf-8");
+			await writeFile(path.join(realRoot, file), text, "utf-8");
+			await tracker.updateFromSandbox(file);
+			tracker.recordCheckpoint(toolCallId, "write");
+		};
+		await edit("call-1", "a.txt", "a1");
+		await edit("call-2", "b.txt", "b1");
+		await edit("call-3", "a.txt", "a2");
+		assert.equal(tracker.recordCheckpoint("call-4", "bash"), undefined);
+		assert.deepEqual(
+			tracker.listCheckpoints().map((checkpoint) => checkpoint.paths),
+			[["a.txt"], ["b.txt"], ["a.txt"]],
+		);
+
+		// a1 is only referenced by a checkpoint, so it must survive a GC pass.
+		await collectGarbage(cache, tracker.getLiveManifests());
+		const dropped = await tracker.rollbackToCheckpoint("call-2", [
+			sandboxRoot,
+			realRoot,
+		]);
+		assert.deepEqual(
+			dropped?.map((checkpoint) => checkpoint.toolCallId),
+			["call-2", "call-3"],
+		);
+		for (const root of [sandboxRoot, realRoot]) {
+			assert.equal(await readFile(path.join(root, "a.txt"), "utf-8"), "a1");
+			assert.equal(await readFile(path.join(root, "b.txt"), "utf-8"), "b0");
+		}
+		assert.deepEqual(
+			tracker.listCheckpoints().map((checkpoint) => checkpoint.toolCallId),
+			["call-1"],
+		);
+		assert.equal(
+			await tracker.rollbackToCheckpoint("call-3", [realRoot]),
+			undefined,
+		);
+	} finally {
+		await rm(realRoot, { recursive: true, force: true });
+		await rm(sandboxRoot, { recursive: true, force: true });
+		await rm(cache.root, { recursive: true, force: true });
+	}
+});
+
+test("revertPaths restores matching files and keeps the rest", async () => {
+	const realRoot = await createTempDir("undo-redo-real-");
+	const sandboxRoot = await createTempDir("undo-redo-sandbox-");
+	const sessionId = `test-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+	const cache = createCache(sessionId);
+	await cache.ensure();
+
+	try {
+		await mkdir(path.join(realRoot, "src"));
+		await writeFile(path.join(realRoot, "src", "a.ts"), "a0", "utf-8");
+		await writeFile(path.join(realRoot, "notes.md"), "n0", "utf-8");
+		await cp(realRoot, sandboxRoot, { recursive: true });
+
+		const tracker = new SnapshotTracker(cache, realRoot, sandboxRoot);
+		await tracker.loadBase();
+		const write = async (file: string, text: string) => {
+			await tracker.ensureBaseFromSandbox(file);
+			await writeFile(path.join(sandboxRoot, file), text, "utf-8");
+			await writeFile(path.join(realRoot, file), text, "utf-8");
+			await tracker.updateFromSandbox(file);
+		};
+		await write("src/a.ts", "a1");
+		await write("src/b.ts", "b1");
+		await write("notes.md", "n1");
+		await tracker.saveLeaf("leaf-1");
+		await write("src/a.ts", "a2");
+		const beforeRevert = tracker.getTrackedManifest();
+
+		assert.deepEqual(
+			(await tracker.revertPaths("src/*.ts", null, [sandboxRoot, realRoot]))
+				?.slice()
+				.sort(),
+			["src/a.ts", "src/b.ts"],
+		);
+		for (const root of [sandboxRoot, realRoot]) {
+			assert.equal(
+				await readFile(path.join(root, "src", "a.ts"), "utf-8"),
+				"a0",
+			);
+			await assert.rejects(readFile(path.join(root, "src", "b.ts")));
+			assert.equal(await readFile(path.join(root, "notes.md"), "utf-8"), "n1");
+		}
+		assert.equal(tracker.getTrackedManifest().get("src/b.ts")?.exists, false);
+
+		assert.deepEqual(
+			await tracker.revertPaths("src/a.ts", "leaf-1", [realRoot]),
+			["src/a.ts"],
+		);
+		assert.equal(
+			await readFile(path.join(realRoot, "src", "a.ts"), "utf-8"),
+			"a1",
+		);
+		assert.equal(
+			await tracker.revertPaths("src/a.ts", "missing", [realRoot]),
+			undefined,
+		);
+
+		// The state before a revert stays restorable once checkpoints are gone.
+		const keptId = await tracker.saveSnapshotLeaf(
+			"before-revert",
+			beforeRevert,
+		);
+		tracker.resetCheckpoints();
+		assert.deepEqual(await cache.readLeaf(keptId), beforeRevert);
+		await tracker.restoreLeaf(keptId, [sandboxRoot, realRoot]);
+		for (const root of [sandboxRoot, realRoot]) {
+			assert.equal(
+				await readFile(path.join(root, "src", "a.ts"), "utf-8"),
+				"a2",
+			);
+			assert.equal(
+				await readFile(path.join(root, "src", "b.ts"), "utf-8"),
+				"b1",
+			);
+		}
 	} finally {
 		await rm(realRoot, { recursive: true, force: true });
 		await rm(sandboxRoot, { recursive: true, force: true });
@@ -22,6 +22,7 @@ import {
 } from "@mariozechner/pi-coding-agent";
 import {
 	expandPath,
+	fromPosix,
 	isWithinRoot,
 	mapToSandboxPath,
 	replaceRootInText,
@@ -31,8 +32,10 @@ import {
 import {
 	diffSandboxStats,
 	ensureSandboxFile,
+	removeEmptyDirectory,
 	removeFileFromDisk,
 	type SandboxState,
+	syncDirectoryFromSandbox,
 	syncFileFromSandbox,
 } from "./sandbox.js";
 import type { SnapshotTracker } from "./tracker.js";
@@ -103,19 +106,18 @@ function rewriteError(
 	return new Error(replaceRootInText(message, sandboxRoot, realRoot));
 }
 
+// Reads only keep the base snapshot, so a later bash change to the file can
+// still be undone; the file is not tracked until something modifies it.
 async function trackRead(
 	filePath: string,
 	realRoot: string,
 	tracker: SnapshotTracker,
-	updateStatus: () => void,
 ): Promise<void> {
 	try {
 		const absolutePath = resolveUserPath(filePath, realRoot);
 		const relativePath = toRelativePath(absolutePath, realRoot);
 		if (!relativePath) return;
 		await tracker.ensureBaseFromSandbox(relativePath);
-		await tracker.updateFromSandbox(relativePath);
-		updateStatus();
 	} catch {
 		// Best-effort tracking; don't block tool execution.
 	}
@@ -197,6 +199,11 @@ export function createBufferedToolSet(
 	const baseFindTool = createFindTool(sandboxRoot);
 	const baseLsTool = createLsTool(sandboxRoot);
 	const baseGrepTool = createGrepTool(sandboxRoot);
+	// A lazy sandbox lacks the files no tool has touched yet, so searches run
+	// on the workspace, which has the same content, until it is materialized.
+	const workspaceFindTool = createFindTool(realRoot);
+	const workspaceLsTool = createLsTool(realRoot);
+	const workspaceGrepTool = createGrepTool(realRoot);
 
 	const baseBashTool = createBashTool(realRoot, {
 		spawnHook: (context: BashSpawnContext) => ({
@@ -218,7 +225,7 @@ export function createBufferedToolSet(
 			signal,
 			onUpdate,
 		);
-		await trackRead(input.path, realRoot, tracker, updateStatus);
+		await trackRead(input.path, realRoot, tracker);
 		return rewriteResultPaths(result, sandboxRoot, realRoot);
 	};
 
@@ -236,6 +243,7 @@ export function createBufferedToolSet(
 		const absolutePath = resolveUserPath(input.path, realRoot);
 		const relativePath = toRelativePath(absolutePath, realRoot);
 		if (relativePath) {
+			await ensureSandboxFile(relativePath, realRoot, sandboxRoot);
 			await tracker.ensureBaseFromSandbox(relativePath);
 		}
 		const result = await baseEditTool.execute(
@@ -248,6 +256,7 @@ export function createBufferedToolSet(
 			await tracker.updateFromSandbox(relativePath);
 			await syncFileFromSandbox(relativePath, sandboxRoot, realRoot);
 			await sandboxState.updateFile(relativePath);
+			tracker.recordCheckpoint(toolCallId, baseEditTool.name);
 			updateStatus();
 		}
 		return rewriteResultPaths(result, sandboxRoot, realRoot);
@@ -267,6 +276,7 @@ export function createBufferedToolSet(
 		const absolutePath = resolveUserPath(input.path, realRoot);
 		const relativePath = toRelativePath(absolutePath, realRoot);
 		if (relativePath) {
+			await ensureSandboxFile(relativePath, realRoot, sandboxRoot);
 			await tracker.ensureBaseFromSandbox(relativePath);
 		}
 		const result = await baseWriteTool.execute(
@@ -279,6 +289,7 @@ export function createBufferedToolSet(
 			await tracker.updateFromSandbox(relativePath);
 			await syncFileFromSandbox(relativePath, sandboxRoot, realRoot);
 			await sandboxState.updateFile(relativePath);
+			tracker.recordCheckpoint(toolCallId, baseWriteTool.name);
 			updateStatus();
 		}
 		return rewriteResultPaths(result, sandboxRoot, realRoot);
@@ -295,6 +306,9 @@ export function createBufferedToolSet(
 		signal,
 		onUpdate,
 	) => {
+		if (sandboxState.isPartial()) {
+			return workspaceFindTool.execute(toolCallId, input, signal, onUpdate);
+		}
 		const mappedInput = {
 			...input,
 			path: mapInputPath(input.path, realRoot, sandboxRoot),
@@ -323,6 +337,9 @@ export function createBufferedToolSet(
 		signal,
 		onUpdate,
 	) => {
+		if (sandboxState.isPartial()) {
+			return workspaceLsTool.execute(toolCallId, input, signal, onUpdate);
+		}
 		const mappedInput = {
 			...input,
 			path: mapInputPath(input.path, realRoot, sandboxRoot),
@@ -351,6 +368,9 @@ export function createBufferedToolSet(
 		signal,
 		onUpdate,
 	) => {
+		if (sandboxState.isPartial()) {
+			return workspaceGrepTool.execute(toolCallId, input, signal, onUpdate);
+		}
 		const mappedInput = {
 			...input,
 			path: mapInputPath(input.path, realRoot, sandboxRoot),
@@ -379,6 +399,8 @@ export function createBufferedToolSet(
 		signal,
 		onUpdate,
 	) => {
+		await sandboxState.materialize();
+		sandboxState.beginCommand();
 		const beforeStats = sandboxState.getStats();
 		let result: Awaited<ReturnType<typeof baseBashTool.execute>> | undefined;
 		let error: Error | undefined;
@@ -401,10 +423,28 @@ export function createBufferedToolSet(
 			error = rewriteError(err, sandboxRoot, realRoot);
 		}
 
-		const afterStats = await sandboxState.rescan();
+		const afterStats = await sandboxState.scanChanges();
 		const diff = diffSandboxStats(beforeStats, afterStats);
 		sandboxState.setStats(afterStats);
 
+		for (const relativePath of diff.removed) {
+			await tracker.ensureBaseFromDisk(relativePath);
+			tracker.markDeleted(relativePath);
+			await removeFileFromDisk(relativePath, realRoot);
+		}
+
+		for (const relativePath of diff.removedDirectories) {
+			await tracker.ensureBaseFromDisk(relativePath);
+			tracker.markDeleted(relativePath);
+			await removeEmptyDirectory(path.join(realRoot, fromPosix(relativePath)));
+		}
+
+		for (const relativePath of diff.addedDirectories) {
+			await tracker.ensureBaseFromDisk(relativePath);
+			await tracker.updateFromSandbox(relativePath);
+			await syncDirectoryFromSandbox(relativePath, sandboxRoot, realRoot);
+		}
+
 		for (const relativePath of diff.added) {
 			await tracker.ensureBaseFromDisk(relativePath);
 			await tracker.updateFromSandbox(relativePath);
@@ -417,13 +457,15 @@ export function createBufferedToolSet(
 			await syncFileFromSandbox(relativePath, sandboxRoot, realRoot);
 		}
 
-		for (const relativePath of diff.removed) {
-			await tracker.ensureBaseFromDisk(relativePath);
-			tracker.markDeleted(relativePath);
-			await removeFileFromDisk(relativePath, realRoot);
-		}
+		tracker.recordCheckpoint(toolCallId, baseBashTool.name);
 
-		if (diff.added.length + diff.changed.length + diff.removed.length > 0) {
+		const changeCount =
+			diff.added.length +
+			diff.changed.length +
+			diff.removed.length +
+			diff.addedDirectories.length +
+			diff.removedDirectories.length;
+		if (changeCount > 0) {
 			updateStatus();
 		}
 
@@ -454,6 +496,18 @@ export function createBufferedToolSet(
 	};
 }
 
+export function createPassthroughToolSet(realRoot: string): BufferedToolSet {
+	return {
+		readTool: createReadTool(realRoot),
+		editTool: createEditTool(realRoot),
+		writeTool: createWriteTool(realRoot),
+		findTool: createFindTool(realRoot),
+		lsTool: createLsTool(realRoot),
+		grepTool: createGrepTool(realRoot),
+		bashTool: createBashTool(realRoot),
+	};
+}
+
 export function registerBufferedTools(options: ToolRegistrationOptions): void {
 	const { pi } = options;
 	const tools = createBufferedToolSet(options);
@@ -1,9 +1,31 @@
-import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { copyFile, lstat, readFile, readlink } from "node:fs/promises";
 import path from "node:path";
 import type { Cache } from "./cache.js";
 import { hashBuffer } from "./cache.js";
-import { fromPosix, toRelativePath } from "./paths.js";
-import type { FileState, Manifest, TrackedStats } from "./types.js";
+import { fromPosix, getParentPaths, toRelativePath } from "./paths.js";
+import { applyManifestTransaction } from "./restore.js";
+import { MODE_MASK, matchPaths } from "./sandbox.js";
+import type {
+	Checkpoint,
+	ConflictResolution,
+	FileState,
+	Manifest,
+	RestoreConflict,
+	TrackedStats,
+} from "./types.js";
+
+const ORIGINAL_SUFFIX = ".orig";
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = [
+	"overwrite",
+	"skip",
+	"keep-both",
+];
+
+interface CheckpointRecord {
+	checkpoint: Checkpoint;
+	manifest: Manifest;
+}
 
 interface SnapshotData {
 	exists: boolean;
@@ -11,6 +33,9 @@ interface SnapshotData {
 	hash?: string;
 	size?: number;
 	binary?: boolean;
+	mode?: number;
+	target?: string;
+	directory?: boolean;
 }
 
 function isBinaryBuffer(buffer: Buffer): boolean {
@@ -22,10 +47,24 @@ function isBinaryBuffer(buffer: Buffer): boolean {
 
 async function readSnapshot(absPath: string): Promise<SnapshotData> {
 	try {
+		const stats = await lstat(absPath);
+		if (stats.isSymbolicLink()) {
+			return { exists: true, target: await readlink(absPath) };
+		}
+		if (stats.isDirectory()) {
+			return { exists: true, directory: true, mode: stats.mode & MODE_MASK };
+		}
 		const buffer = await readFile(absPath);
 		const binary = isBinaryBuffer(buffer);
 		const hash = hashBuffer(buffer);
-		return { exists: true, buffer, hash, size: buffer.length, binary };
+		return {
+			exists: true,
+			buffer,
+			hash,
+			size: buffer.length,
+			binary,
+			mode: stats.mode & MODE_MASK,
+		};
 	} catch (error) {
 		const err = error as NodeJS.ErrnoException;
 		if (err.code === "ENOENT") {
@@ -35,6 +74,48 @@ async function readSnapshot(absPath: string): Promise<SnapshotData> {
 	}
 }
 
+function toFileState(snapshot: SnapshotData): FileState {
+	if (!snapshot.exists) return { exists: false };
+	if (snapshot.target !== undefined) {
+		return { exists: true, kind: "symlink", target: snapshot.target };
+	}
+	if (snapshot.directory) {
+		return { exists: true, kind: "directory", mode: snapshot.mode };
+	}
+	return {
+		exists: true,
+		kind: "file",
+		hash: snapshot.hash,
+		size: snapshot.size,
+		binary: snapshot.binary,
+		mode: snapshot.mode,
+	};
+}
+
+function toDirectoryState(snapshot: SnapshotData): FileState {
+	if (!snapshot.exists) return { exists: false, kind: "directory" };
+	return toFileState(snapshot);
+}
+
+// Modes recorded before they were tracked are unknown and match any mode.
+export function isSameFileState(
+	left: FileState,
+	right: FileState | undefined,
+): boolean {
+	if (!right) return false;
+	if (!left.exists || !right.exists) return left.exists === right.exists;
+	if ((left.kind ?? "file") !== (right.kind ?? "file")) return false;
+	if (left.kind === "symlink") return left.target === right.target;
+	if (
+		left.mode !== undefined &&
+		right.mode !== undefined &&
+		left.mode !== right.mode
+	) {
+		return false;
+	}
+	return left.hash === right.hash;
+}
+
 async function writeSnapshotToCache(
 	cache: Cache,
 	snapshot: SnapshotData,
@@ -42,22 +123,25 @@ async function writeSnapshotToCache(
 	if (!snapshot.exists) {
 		return { exists: false };
 	}
+	if (snapshot.target !== undefined || snapshot.directory) {
+		return toFileState(snapshot);
+	}
 	if (!snapshot.buffer || !snapshot.hash) {
 		return { exists: false };
 	}
 	await cache.writeBlob(snapshot.hash, snapshot.buffer);
-	return {
-		exists: true,
-		hash: snapshot.hash,
-		size: snapshot.size,
-		binary: snapshot.binary,
-	};
+	return toFileState(snapshot);
 }
 
 export class SnapshotTracker {
 	private baseManifest: Manifest = new Map();
 	private trackedManifest: Manifest = new Map();
 	private leafCache = new Map<string, Manifest>();
+	// The leaf last saved or restored; the next leaf is stored as a delta on it.
+	private lastLeafId: string | null = null;
+	private unrestorableLeaves = new Set<string>();
+	private checkpointOrigin: Manifest = new Map();
+	private checkpoints: CheckpointRecord[] = [];
 
 	constructor(
 		private readonly cache: Cache,
@@ -71,6 +155,15 @@ export class SnapshotTracker {
 		if (base) {
 			this.baseManifest = base;
 		}
+		this.unrestorableLeaves = await this.cache.readUnrestorableLeaves();
+	}
+
+	isRestorable(leafId: string | null): boolean {
+		return !leafId || !this.unrestorableLeaves.has(leafId);
+	}
+
+	setUnrestorableLeaves(leafIds: Iterable<string>): void {
+		this.unrestorableLeaves = new Set(leafIds);
 	}
 
 	getBaseManifest(): Manifest {
@@ -81,6 +174,14 @@ export class SnapshotTracker {
 		return new Map(this.trackedManifest);
 	}
 
+	getCurrentManifest(): Manifest {
+		const manifest = new Map(this.baseManifest);
+		for (const [relativePath, entry] of this.trackedManifest) {
+			manifest.set(relativePath, entry);
+		}
+		return manifest;
+	}
+
 	setTrackedManifest(manifest: Manifest): void {
 		this.trackedManifest = new Map(manifest);
 		this.emitStats();
@@ -94,19 +195,41 @@ export class SnapshotTracker {
 		await this.ensureBase(relativePath, this.realRoot);
 	}
 
+	// Parent directories are recorded too, so a restore can remove the ones a
+	// tool created along the way.
 	private async ensureBase(
 		relativePath: string,
 		sourceRoot: string,
 	): Promise<void> {
-		if (this.baseManifest.has(relativePath)) return;
-		const absPath = path.join(sourceRoot, fromPosix(relativePath));
-		const snapshot = await readSnapshot(absPath);
-		const entry = await writeSnapshotToCache(this.cache, snapshot);
-		this.baseManifest.set(relativePath, entry);
-		await this.cache.writeBase(this.baseManifest);
+		let changed = false;
+		for (const parentPath of getParentPaths(relativePath)) {
+			if (this.baseManifest.has(parentPath)) continue;
+			const snapshot = await readSnapshot(
+				path.join(sourceRoot, fromPosix(parentPath)),
+			);
+			this.baseManifest.set(parentPath, toDirectoryState(snapshot));
+			changed = true;
+		}
+		if (!this.baseManifest.has(relativePath)) {
+			const absPath = path.join(sourceRoot, fromPosix(relativePath));
+			const snapshot = await readSnapshot(absPath);
+			const entry = await writeSnapshotToCache(this.cache, snapshot);
+			this.baseManifest.set(relativePath, entry);
+			changed = true;
+		}
+		if (changed) {
+			await this.cache.writeBase(this.baseManifest);
+		}
 	}
 
 	async updateFromSandbox(relativePath: string): Promise<FileState> {
+		for (const parentPath of getParentPaths(relativePath)) {
+			if (this.trackedManifest.get(parentPath)?.exists) continue;
+			const snapshot = await readSnapshot(
+				path.join(this.sandboxRoot, fromPosix(parentPath)),
+			);
+			this.trackedManifest.set(parentPath, toDirectoryState(snapshot));
+		}
 		const absPath = path.join(this.sandboxRoot, fromPosix(relativePath));
 		const snapshot = await readSnapshot(absPath);
 		const entry = await writeSnapshotToCache(this.cache, snapshot);
@@ -116,15 +239,37 @@ export class SnapshotTracker {
 	}
 
 	markDeleted(relativePath: string): void {
-		this.trackedManifest.set(relativePath, { exists: false });
+		const previous =
+			this.trackedManifest.get(relativePath) ??
+			this.baseManifest.get(relativePath);
+		this.trackedManifest.set(
+			relativePath,
+			previous?.kind === "directory"
+				? { exists: false, kind: "directory" }
+				: { exists: false },
+		);
 		this.emitStats();
 	}
 
+	// A damaged leaf is never restored, so the tracked state belongs to some
+	// other leaf and must not be written over it.
 	async saveLeaf(leafId: string | null): Promise<void> {
-		if (!leafId) return;
+		if (!leafId || !this.isRestorable(leafId)) return;
 		const snapshot = new Map(this.trackedManifest);
 		this.leafCache.set(leafId, snapshot);
-		await this.cache.writeLeaf(leafId, snapshot);
+		await this.cache.writeLeaf(leafId, snapshot, {
+			parentId: this.lastLeafId,
+		});
+		this.lastLeafId = leafId;
+	}
+
+	// Keeps a tracked state under a leaf id of its own, outside the
+	// conversation tree, so it stays restorable after checkpoints are reset.
+	async saveSnapshotLeaf(prefix: string, manifest: Manifest): Promise<string> {
+		const leafId = `${prefix}-${Date.now()}`;
+		this.leafCache.set(leafId, new Map(manifest));
+		await this.cache.writeLeaf(leafId, manifest);
+		return leafId;
 	}
 
 	async loadLeaf(leafId: string): Promise<Manifest | undefined> {
@@ -138,29 +283,227 @@ export class SnapshotTracker {
 		return undefined;
 	}
 
-	async restoreLeaf(
-		leafId: string | null,
-		applyRoots: string[],
-	): Promise<void> {
+	// Checkpoints cover one agent reply: each mutating tool call records the
+	// tracked state it left behind, keyed by its tool call id.
+	recordCheckpoint(
+		toolCallId: string,
+		toolName: string,
+	): Checkpoint | undefined {
+		const previous = this.checkpoints.at(-1)?.manifest ?? this.checkpointOrigin;
+		const paths = [...this.trackedManifest]
+			.filter(
+				([relativePath, entry]) =>
+					!isSameFileState(
+						entry,
+						previous.get(relativePath) ?? this.baseManifest.get(relativePath),
+					),
+			)
+			.map(([relativePath]) => relativePath);
+		if (paths.length === 0) return undefined;
+		const checkpoint = { toolCallId, toolName, paths, createdAt: Date.now() };
+		this.checkpoints.push({
+			checkpoint,
+			manifest: new Map(this.trackedManifest),
+		});
+		return checkpoint;
+	}
+
+	listCheckpoints(): Checkpoint[] {
+		return this.checkpoints.map((record) => record.checkpoint);
+	}
+
+	// Manifests held only in memory that still reference blobs: the tracked
+	// state and every checkpoint a rollback can return to.
+	getLiveManifests(): Manifest[] {
+		return [
+			this.getTrackedManifest(),
+			this.checkpointOrigin,
+			...this.checkpoints.map((record) => record.manifest),
+		];
+	}
+
+	resetCheckpoints(): void {
+		this.checkpointOrigin = new Map(this.trackedManifest);
+		this.checkpoints = [];
+	}
+
+	// The state the workspace has once the leaf is restored.
+	async resolveManifest(leafId: string | null): Promise<Manifest | undefined> {
 		const manifest = new Map(this.baseManifest);
 		if (leafId) {
 			const leafManifest = await this.loadLeaf(leafId);
-			if (!leafManifest) return;
+			if (!leafManifest) return undefined;
 			for (const [relativePath, entry] of leafManifest) {
 				manifest.set(relativePath, entry);
 			}
 		}
-		for (const root of applyRoots) {
-			await applyManifest(this.cache, manifest, root);
+		return manifest;
+	}
+
+	// The state just before the given tool call ran.
+	private resolveCheckpoint(toolCallId: string): Manifest | undefined {
+		const index = this.checkpoints.findIndex(
+			(record) => record.checkpoint.toolCallId === toolCallId,
+		);
+		if (index < 0) return undefined;
+		const before =
+			index === 0
+				? this.checkpointOrigin
+				: this.checkpoints[index - 1].manifest;
+		const manifest = new Map(this.baseManifest);
+		for (const [relativePath, entry] of before) {
+			manifest.set(relativePath, entry);
+		}
+		return manifest;
+	}
+
+	// Entries of the base (leafId null) or a leaf for the files matching a path
+	// or glob, limited to the ones that differ from the tracked state.
+	private async resolveRevert(
+		pattern: string,
+		leafId: string | null,
+	): Promise<Manifest | undefined> {
+		const source = await this.resolveManifest(leafId);
+		if (!source) return undefined;
+		const candidates = [...source]
+			.filter(([, entry]) => entry.kind !== "directory")
+			.map(([relativePath]) => relativePath);
+		const manifest: Manifest = new Map();
+		for (const relativePath of matchPaths(pattern, candidates)) {
+			const entry = source.get(relativePath) as FileState;
+			const current =
+				this.trackedManifest.get(relativePath) ??
+				this.baseManifest.get(relativePath);
+			if (!isSameFileState(entry, current)) {
+				manifest.set(relativePath, entry);
+			}
+		}
+		return manifest;
+	}
+
+	async findRestoreConflicts(
+		leafId: string | null,
+	): Promise<RestoreConflict[]> {
+		const manifest = await this.resolveManifest(leafId);
+		return manifest ? this.findConflicts(manifest) : [];
+	}
+
+	async findCheckpointConflicts(
+		toolCallId: string,
+	): Promise<RestoreConflict[]> {
+		const manifest = this.resolveCheckpoint(toolCallId);
+		return manifest ? this.findConflicts(manifest) : [];
+	}
+
+	async findRevertConflicts(
+		pattern: string,
+		leafId: string | null,
+	): Promise<RestoreConflict[]> {
+		const manifest = await this.resolveRevert(pattern, leafId);
+		return manifest ? this.findConflicts(manifest) : [];
+	}
+
+	// A path conflicts when the real file matches neither the last state we
+	// recorded for it nor the state being restored, i.e. it was edited outside pi.
+	private async findConflicts(manifest: Manifest): Promise<RestoreConflict[]> {
+		const conflicts: RestoreConflict[] = [];
+		for (const [relativePath, entry] of manifest) {
+			if (entry.kind === "directory") continue;
+			const actual = toFileState(
+				await readSnapshot(path.join(this.realRoot, fromPosix(relativePath))),
+			);
+			if (actual.kind === "directory" || isSameFileState(actual, entry)) {
+				continue;
+			}
+			const expected =
+				this.trackedManifest.get(relativePath) ??
+				this.baseManifest.get(relativePath);
+			if (isSameFileState(actual, expected)) continue;
+			conflicts.push({ path: relativePath, expected, actual });
 		}
+		return conflicts;
+	}
+
+	async restoreLeaf(
+		leafId: string | null,
+		applyRoots: string[],
+		resolutions: Map<string, ConflictResolution> = new Map(),
+	): Promise<void> {
+		const manifest = await this.resolveManifest(leafId);
+		if (!manifest) return;
+		await this.applyRestore(manifest, applyRoots, resolutions);
 		this.setTrackedManifest(manifest);
+		this.resetCheckpoints();
+		this.lastLeafId = leafId;
+	}
+
+	// Returns the checkpoints that were dropped, starting with the given call.
+	async rollbackToCheckpoint(
+		toolCallId: string,
+		applyRoots: string[],
+		resolutions: Map<string, ConflictResolution> = new Map(),
+	): Promise<Checkpoint[] | undefined> {
+		const manifest = this.resolveCheckpoint(toolCallId);
+		if (!manifest) return undefined;
+		await this.applyRestore(manifest, applyRoots, resolutions);
+		this.setTrackedManifest(manifest);
+		const index = this.checkpoints.findIndex(
+			(record) => record.checkpoint.toolCallId === toolCallId,
+		);
+		return this.checkpoints.splice(index).map((record) => record.checkpoint);
+	}
+
+	// Restores only the matching files and returns their paths; the rest of
+	// the tracked state is left alone.
+	async revertPaths(
+		pattern: string,
+		leafId: string | null,
+		applyRoots: string[],
+		resolutions: Map<string, ConflictResolution> = new Map(),
+	): Promise<string[] | undefined> {
+		const manifest = await this.resolveRevert(pattern, leafId);
+		if (!manifest) return undefined;
+		await this.applyRestore(manifest, applyRoots, resolutions);
+		for (const [relativePath, entry] of manifest) {
+			this.trackedManifest.set(relativePath, entry);
+		}
+		this.emitStats();
+		return [...manifest.keys()];
 	}
 
+	private async applyRestore(
+		manifest: Manifest,
+		applyRoots: string[],
+		resolutions: Map<string, ConflictResolution>,
+	): Promise<void> {
+		for (const [relativePath, resolution] of resolutions) {
+			const realPath = path.join(this.realRoot, fromPosix(relativePath));
+			if (resolution === "skip") {
+				const snapshot = await readSnapshot(realPath);
+				manifest.set(
+					relativePath,
+					await writeSnapshotToCache(this.cache, snapshot),
+				);
+			} else if (resolution === "keep-both") {
+				await copyFile(realPath, `${realPath}${ORIGINAL_SUFFIX}`).catch(
+					(error: NodeJS.ErrnoException) => {
+						if (error.code !== "ENOENT") throw error;
+					},
+				);
+			}
+		}
+		await applyManifestTransaction(this.cache, manifest, applyRoots);
+	}
+
+	// Only files that differ from their base snapshot count as tracked.
 	getTrackedStats(): TrackedStats {
 		let fileCount = 0;
 		let totalBytes = 0;
-		for (const entry of this.trackedManifest.values()) {
-			if (!entry.exists) continue;
+		for (const [relativePath, entry] of this.trackedManifest) {
+			if (!entry.exists || entry.kind === "directory") continue;
+			if (isSameFileState(entry, this.baseManifest.get(relativePath))) {
+				continue;
+			}
 			fileCount += 1;
 			totalBytes += entry.size ?? 0;
 		}
@@ -175,21 +518,3 @@ export class SnapshotTracker {
 		this.onStats?.(this.getTrackedStats());
 	}
 }
-
-async function applyManifest(
-	cache: Cache,
-	manifest: Manifest,
-	targetRoot: string,
-): Promise<void> {
-	for (const [relativePath, entry] of manifest) {
-		const absPath = path.join(targetRoot, fromPosix(relativePath));
-		if (!entry.exists) {
-			await rm(absPath, { force: true });
-			continue;
-		}
-		if (!entry.hash) continue;
-		const buffer = await cache.readBlob(entry.hash);
-		await mkdir(path.dirname(absPath), { recursive: true });
-		await writeFile(absPath, buffer);
-	}
-}
@@ -1,8 +1,13 @@
+export type FileKind = "file" | "symlink" | "directory";
+
 export type FileState = {
 	exists: boolean;
+	kind?: FileKind;
 	hash?: string;
 	size?: number;
 	binary?: boolean;
+	mode?: number;
+	target?: string;
 };
 
 export type Manifest = Map<string, FileState>;
@@ -14,24 +19,103 @@ export interface TrackedStats {
 	totalBytes: number;
 }
 
+export type BlobCodec = "none" | "gzip" | "brotli";
+
+export interface CompressionStats {
+	blobCount: number;
+	storedBytes: number;
+	originalBytes: number;
+	codecCounts: Record<BlobCodec, number>;
+}
+
+export interface SessionCacheConfig {
+	compression?: BlobCodec;
+}
+
+export interface BlobInfo {
+	hash: string;
+	size: number;
+	mtimeMs: number;
+}
+
+export interface BlobStoreStats {
+	count: number;
+	bytes: number;
+}
+
+export interface GarbageCollectionResult {
+	scannedBlobs: number;
+	removedBlobs: number;
+	freedBytes: number;
+	remainingBytes: number;
+}
+
+export interface IntegrityReport {
+	checkedBlobs: number;
+	corruptBlobs: string[];
+	missingBlobs: string[];
+	orphanBlobs: string[];
+	quarantinedBlobs: string[];
+	unrestorableLeaves: string[];
+}
+
 export interface SandboxEntryStats {
 	size: number;
 	mtimeMs: number;
+	mode?: number;
+	directory?: boolean;
+	ctimeMs?: number;
+	// Content fingerprint, only kept when hash verification is on.
+	hash?: string;
+	// The file changed so shortly before it was looked at that a second change
+	// within the same timestamp tick would not show in its stats.
+	racy?: boolean;
 }
 
 export type SandboxProgressStage = "prepare" | "scan" | "sync" | "done";
 
+// reflink: every file was cloned up front.
+// lazy: files are copied on first use, and the rest before the first bash call.
+// copy: a full copy made by an older version.
+export type SandboxStrategy = "reflink" | "lazy" | "copy";
+
 export interface SandboxProgress {
 	stage: SandboxProgressStage;
 	message: string;
 	current?: number;
 	total?: number;
+	strategy?: SandboxStrategy;
 }
 
-export type ChangeType = "added" | "modified" | "deleted";
+export type ChangeType = "added" | "modified" | "deleted" | "renamed";
 
 export interface DiffItem {
 	leafId: string;
 	path: string;
+	oldPath?: string;
 	change: ChangeType;
 }
+
+export type RestoreAction = "add" | "overwrite" | "delete";
+
+export interface RestorePreviewItem {
+	path: string;
+	action: RestoreAction;
+	directory: boolean;
+	diff?: string;
+}
+
+export interface Checkpoint {
+	toolCallId: string;
+	toolName: string;
+	paths: string[];
+	createdAt: number;
+}
+
+export type ConflictResolution = "overwrite" | "skip" | "keep-both";
+
+export interface RestoreConflict {
+	path: string;
+	expected?: FileState;
+	actual: FileState;
+}
@@ -0,0 +1,93 @@
+import { randomBytes } from "node:crypto";
+import { type FSWatcher, watch } from "node:fs";
+import { rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { toPosix } from "./paths.js";
+
+const MARKER_PREFIX = ".undo-redo-watch-";
+const FLUSH_TIMEOUT_MS = 1000;
+
+// Recursive watching is native on macOS and Windows. On Linux, Node emulates
+// it by walking the tree synchronously and watching every file, which blocks
+// longer than the scan it would replace and does so again under every new
+// directory, so the sandbox is scanned there instead.
+export function hasNativeRecursiveWatch(
+	platform: NodeJS.Platform = process.platform,
+): boolean {
+	return platform === "darwin" || platform === "win32";
+}
+
+// Records which sandbox paths changed since the last reset. A path is the
+// only thing an event tells us; callers re-stat it.
+export class SandboxWatcher {
+	private watcher: FSWatcher | null = null;
+	private readonly dirty = new Set<string>();
+	// Set when an event could not be attributed to a path.
+	private lost = false;
+	private readonly markers = new Map<string, () => void>();
+
+	constructor(private readonly root: string) {}
+
+	// Returns false where recursive watching is unavailable or emulated.
+	start(): boolean {
+		if (!hasNativeRecursiveWatch()) return false;
+		try {
+			this.watcher = watch(this.root, { recursive: true }, (_event, name) =>
+				this.record(name),
+			);
+		} catch {
+			return false;
+		}
+		this.watcher.unref();
+		this.watcher.on("error", () => this.close());
+		return true;
+	}
+
+	close(): void {
+		this.watcher?.close();
+		this.watcher = null;
+	}
+
+	reset(): void {
+		this.dirty.clear();
+		this.lost = false;
+	}
+
+	// Events are delivered asynchronously, so a marker file is written and the
+	// paths are returned once its own event arrives. Undefined means the set
+	// cannot be trusted and the caller should rescan.
+	async flush(): Promise<Set<string> | undefined> {
+		if (!this.watcher) return undefined;
+		const marker = `${MARKER_PREFIX}${randomBytes(4).toString("hex")}`;
+		const markerPath = path.join(this.root, marker);
+		let timer: NodeJS.Timeout | undefined;
+		const arrived = new Promise<boolean>((resolve) => {
+			timer = setTimeout(() => resolve(false), FLUSH_TIMEOUT_MS);
+			this.markers.set(marker, () => resolve(true));
+		});
+		try {
+			await writeFile(markerPath, "");
+			if (!(await arrived) || this.lost || !this.watcher) return undefined;
+			const dirty = new Set(this.dirty);
+			this.reset();
+			return dirty;
+		} finally {
+			clearTimeout(timer);
+			this.markers.delete(marker);
+			await rm(markerPath, { force: true });
+		}
+	}
+
+	private record(name: string | Buffer | null): void {
+		if (!name) {
+			this.lost = true;
+			return;
+		}
+		const relativePath = toPosix(name.toString());
+		if (relativePath.startsWith(MARKER_PREFIX)) {
+			this.markers.get(relativePath)?.();
+			return;
+		}
+		this.dirty.add(relativePath);
+	}
+}